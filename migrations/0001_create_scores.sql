@@ -0,0 +1,24 @@
+-- Tables for SCORE_STORE=d1, mirroring the PocketBase scores and attempts collections.
+-- Apply with: wrangler d1 migrations apply <database-name> [--local]
+
+CREATE TABLE IF NOT EXISTS scores (
+	id TEXT PRIMARY KEY,
+	user_id TEXT NOT NULL,
+	paper_id TEXT NOT NULL,
+	question_id TEXT NOT NULL,
+	attempt_id TEXT NOT NULL DEFAULT '',
+	score INTEGER NOT NULL,
+	updated TEXT NOT NULL,
+	UNIQUE (user_id, paper_id, question_id, attempt_id)
+);
+
+CREATE INDEX IF NOT EXISTS scores_user_paper ON scores (user_id, paper_id);
+
+CREATE TABLE IF NOT EXISTS attempts (
+	id TEXT PRIMARY KEY,
+	user_id TEXT NOT NULL,
+	paper_id TEXT NOT NULL,
+	started TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS attempts_user_paper ON attempts (user_id, paper_id);
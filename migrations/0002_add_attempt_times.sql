@@ -0,0 +1,5 @@
+-- Time limit and time taken for timed attempts, both NULL for untimed ones.
+-- Apply with: wrangler d1 migrations apply <database-name> [--local]
+
+ALTER TABLE attempts ADD COLUMN time_limit_seconds INTEGER;
+ALTER TABLE attempts ADD COLUMN elapsed_seconds INTEGER;
@@ -0,0 +1,13 @@
+-- Revision planner reviews: what each user has done with an item in their plan.
+-- Apply with: wrangler d1 migrations apply <database-name> [--local]
+
+CREATE TABLE IF NOT EXISTS reviews (
+	id TEXT PRIMARY KEY,
+	user_id TEXT NOT NULL,
+	item TEXT NOT NULL,
+	reviews INTEGER NOT NULL DEFAULT 0,
+	reviewed TEXT,
+	snoozed_until TEXT,
+	updated TEXT NOT NULL,
+	UNIQUE (user_id, item)
+);
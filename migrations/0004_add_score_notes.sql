@@ -0,0 +1,5 @@
+-- Notes and mistake categories recorded with each score, '' when not given.
+-- Apply with: wrangler d1 migrations apply <database-name> [--local]
+
+ALTER TABLE scores ADD COLUMN note TEXT NOT NULL DEFAULT '';
+ALTER TABLE scores ADD COLUMN mistake TEXT NOT NULL DEFAULT '';
@@ -1,12 +1,32 @@
 // See https://svelte.dev/docs/kit/types#app.d.ts
 // for information about these interfaces
+import type PocketBase from 'pocketbase';
+import type { D1Database } from '$lib/repositories/d1';
+import type { ScoreRepository } from '$lib/repositories';
+
 declare global {
 	namespace App {
 		// interface Error {}
-		// interface Locals {}
+		interface Locals {
+			// PocketBase client carrying the signed-in user's auth (not the superuser)
+			pb: PocketBase;
+			user: User | null;
+			// Score storage chosen by SCORE_STORE
+			scores: ScoreRepository;
+		}
 		// interface PageData {}
 		// interface PageState {}
-		// interface Platform {}
+		interface Platform {
+			env?: {
+				// Only needed when SCORE_STORE is "d1"
+				DB?: D1Database;
+			};
+		}
+
+		interface User {
+			id: string;
+			email: string;
+		}
 	}
 }
 
@@ -0,0 +1,55 @@
+import { dev } from '$app/environment';
+import { env } from '$env/dynamic/private';
+import { getPocketBaseClient } from '$lib/pb';
+import { getScoreRepository } from '$lib/repositories';
+import type { Handle } from '@sveltejs/kit';
+import PocketBase from 'pocketbase';
+
+// Signed in on every request under `vite dev` with SCORE_STORE=memory, so the app can be
+// run and tried out without a PocketBase backend
+const LOCAL_USER: App.User = { id: 'localdevuser000', email: 'local@localhost' };
+
+/**
+ * Restores the PocketBase user session from the `pb_auth` cookie, exposes the user on
+ * `event.locals` along with the configured score store, and writes the (possibly refreshed
+ * or cleared) session back afterwards.
+ *
+ * In development with the in-memory store there is no session: everyone is `LOCAL_USER`.
+ */
+export const handle: Handle = async ({ event, resolve }) => {
+	if (dev && env.SCORE_STORE === 'memory') {
+		// Never signed in, only there so routes that expect a client still get one
+		event.locals.pb = new PocketBase(env.PB_URL || 'http://127.0.0.1:8090');
+		event.locals.scores = getScoreRepository(event.platform);
+		event.locals.user = LOCAL_USER;
+		return resolve(event);
+	}
+
+	const pb = await getPocketBaseClient(false);
+	pb.authStore.loadFromCookie(event.request.headers.get('cookie') || '');
+
+	try {
+		// Refresh the token so it doesn't expire mid-session, and check the user still exists
+		if (pb.authStore.isValid) {
+			await pb.collection('users').authRefresh();
+		}
+	} catch {
+		pb.authStore.clear();
+	}
+
+	event.locals.pb = pb;
+	event.locals.scores = getScoreRepository(event.platform);
+	event.locals.user =
+		pb.authStore.isValid && pb.authStore.record
+			? { id: pb.authStore.record.id, email: pb.authStore.record.email }
+			: null;
+
+	const response = await resolve(event);
+
+	response.headers.append(
+		'set-cookie',
+		pb.authStore.exportToCookie({ httpOnly: true, secure: !dev, sameSite: 'Lax' })
+	);
+
+	return response;
+};
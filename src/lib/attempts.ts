@@ -0,0 +1,23 @@
+import type { ScoreRepository } from './repositories/types';
+
+/**
+ * Attempts are stored alongside scores (user_id, paper_id, started) and each score record
+ * points at one through `attempt_id`. Scores saved before attempts existed have an empty
+ * `attempt_id` and are treated as the paper's first sitting.
+ */
+
+// Attempt id used for scores saved before attempts existed
+export const LEGACY_ATTEMPT_ID = '';
+
+/**
+ * Returns the id of the most recent attempt on a paper, or `LEGACY_ATTEMPT_ID` if the user
+ * has never started one.
+ */
+export async function getCurrentAttemptId(
+	scores: ScoreRepository,
+	userId: string,
+	paperId: string
+): Promise<string> {
+	const attempts = await scores.listAttempts(userId, paperId);
+	return attempts.length > 0 ? attempts[attempts.length - 1].id : LEGACY_ATTEMPT_ID;
+}
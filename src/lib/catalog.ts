@@ -0,0 +1,51 @@
+import { getPocketBaseClient } from './pb';
+import { fetchCatalog } from './catalogRecords';
+import { pastPapers, type Paper } from './pastPapers';
+
+// How long a fetched catalog is reused before asking PocketBase again
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// How long to keep using the bundled catalog before trying PocketBase again
+const FALLBACK_TTL_MS = 60 * 1000;
+
+let cachedCatalog: { papers: Paper[]; fetchedAt: number; ttl: number } | null = null;
+
+/**
+ * Loads the paper catalog from the PocketBase `papers`/`questions` collections.
+ * Falls back to the bundled `pastPapers` array if PocketBase can't be reached or
+ * hasn't been synced yet (see `sync-papers.ts`). The fallback is cached for a shorter
+ * time, so an outage doesn't mean a failed request to PocketBase on every call.
+ */
+export async function loadPapers(): Promise<Paper[]> {
+	if (cachedCatalog && Date.now() - cachedCatalog.fetchedAt < cachedCatalog.ttl) {
+		return cachedCatalog.papers;
+	}
+
+	try {
+		const pb = await getPocketBaseClient(true);
+		const papers = await fetchCatalog(pb);
+
+		if (papers.length === 0) {
+			console.warn('PocketBase paper catalog is empty, using the bundled catalog');
+			cachedCatalog = { papers: pastPapers, fetchedAt: Date.now(), ttl: FALLBACK_TTL_MS };
+			return pastPapers;
+		}
+
+		cachedCatalog = { papers, fetchedAt: Date.now(), ttl: CACHE_TTL_MS };
+		return papers;
+	} catch (error) {
+		console.error(
+			'Failed to load paper catalog from PocketBase, using the bundled catalog:',
+			error
+		);
+		cachedCatalog = { papers: pastPapers, fetchedAt: Date.now(), ttl: FALLBACK_TTL_MS };
+		return pastPapers;
+	}
+}
+
+/**
+ * Looks up a single paper by its numeric id.
+ */
+export async function findPaper(paperId: number): Promise<Paper | undefined> {
+	const papers = await loadPapers();
+	return papers.find((paper) => paper.id === paperId);
+}
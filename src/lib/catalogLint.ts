@@ -0,0 +1,214 @@
+import type { Paper } from './pastPapers';
+import { compareQuestionIds, parseQuestionId } from './questionIds';
+import { examBoards, seasons, subjects } from './subjects';
+import { findSubjectTopics } from './topics';
+
+/**
+ * Checks the paper catalog for mistakes that would otherwise only show up as wrong totals or
+ * missing papers in the app. Run it with `bun validate-papers.ts`.
+ *
+ * Every finding has a stable rule code, so scripts can filter on it, and a severity: errors
+ * are data that is definitely wrong and fail the check, warnings are worth a look.
+ */
+
+export type LintSeverity = 'error' | 'warning';
+
+export const LINT_RULES = {
+	'duplicate-paper-id': 'error',
+	'duplicate-question-id': 'error',
+	'total-marks-mismatch': 'error',
+	'missing-total-marks': 'warning',
+	'invalid-marks': 'error',
+	'zero-marks': 'warning',
+	'unknown-subject': 'error',
+	'unknown-board': 'error',
+	'unknown-season': 'error',
+	'malformed-url': 'error',
+	'unparsed-question-id': 'warning',
+	'suspicious-question-sequence': 'warning',
+	'unknown-topic': 'warning',
+	'invalid-grade-boundaries': 'error'
+} as const satisfies Record<string, LintSeverity>;
+
+export type LintRule = keyof typeof LINT_RULES;
+
+export interface LintFinding {
+	rule: LintRule;
+	severity: LintSeverity;
+	paperId: number;
+	// Set when the finding is about one question rather than the whole paper
+	questionId?: string;
+	message: string;
+}
+
+function isValidUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'https:' || url.protocol === 'http:';
+	} catch {
+		return false;
+	}
+}
+
+function lintPaper(paper: Paper, report: (finding: Omit<LintFinding, 'severity'>) => void) {
+	const paperId = paper.id;
+
+	if (!subjects.some((s) => s.id === paper.subject)) {
+		report({ rule: 'unknown-subject', paperId, message: `Unknown subject "${paper.subject}"` });
+	}
+	if (!examBoards.some((b) => b.id === paper.board)) {
+		report({ rule: 'unknown-board', paperId, message: `Unknown exam board "${paper.board}"` });
+	}
+	if (!seasons.includes(paper.season)) {
+		report({ rule: 'unknown-season', paperId, message: `Unknown season "${paper.season}"` });
+	}
+
+	const urls: [string, string | undefined][] = [
+		['url', paper.url],
+		['markschemeUrl', paper.markschemeUrl],
+		...(paper.extraResources ?? []).map((r): [string, string] => [`${r.type} resource`, r.url])
+	];
+	for (const [name, url] of urls) {
+		if (url !== undefined && !isValidUrl(url)) {
+			report({ rule: 'malformed-url', paperId, message: `${name} "${url}" is not a valid URL` });
+		}
+	}
+
+	const calculatedTotal = paper.questions.reduce((sum, q) => sum + q.marks, 0);
+	if (paper.totalMarks === undefined) {
+		report({
+			rule: 'missing-total-marks',
+			paperId,
+			message: `No totalMarks, the questions add up to ${calculatedTotal}`
+		});
+	} else if (paper.totalMarks !== calculatedTotal) {
+		report({
+			rule: 'total-marks-mismatch',
+			paperId,
+			message: `totalMarks is ${paper.totalMarks} but the questions add up to ${calculatedTotal}`
+		});
+	}
+
+	const boundaries = paper.gradeBoundaries ?? [];
+	if (
+		boundaries.some((b) => !Number.isInteger(b.marks) || b.marks < 0 || b.marks > calculatedTotal)
+	) {
+		report({
+			rule: 'invalid-grade-boundaries',
+			paperId,
+			message: `Grade boundaries must be whole numbers between 0 and ${calculatedTotal}`
+		});
+	}
+
+	const seenIds = new Set<string>();
+	const subjectTopics = findSubjectTopics(paper.subject, paper.board);
+	// Question numbers that have lettered parts, e.g. 1 for '1aii'
+	const lettered = new Set(
+		paper.questions.map((q) => parseQuestionId(q.id)).flatMap((p) => (p?.letter ? [p.number] : []))
+	);
+
+	paper.questions.forEach((question, index) => {
+		const questionId = question.id;
+
+		if (seenIds.has(questionId)) {
+			report({
+				rule: 'duplicate-question-id',
+				paperId,
+				questionId,
+				message: `Question ${questionId} appears more than once`
+			});
+		}
+		seenIds.add(questionId);
+
+		if (!Number.isInteger(question.marks) || question.marks < 0) {
+			report({
+				rule: 'invalid-marks',
+				paperId,
+				questionId,
+				message: `Question ${questionId} has ${question.marks} marks, expected a whole number`
+			});
+		} else if (question.marks === 0) {
+			report({
+				rule: 'zero-marks',
+				paperId,
+				questionId,
+				message: `Question ${questionId} is worth 0 marks`
+			});
+		}
+
+		for (const code of question.topics ?? []) {
+			if (subjectTopics && !subjectTopics.topics.some((t) => t.code === code)) {
+				report({
+					rule: 'unknown-topic',
+					paperId,
+					questionId,
+					message: `Topic "${code}" is not in the ${subjectTopics.specification} topic list`
+				});
+			}
+		}
+
+		const parts = parseQuestionId(questionId);
+		if (!parts) {
+			if (!question.path) {
+				report({
+					rule: 'unparsed-question-id',
+					paperId,
+					questionId,
+					message: `Question id "${questionId}" is not in a recognised format, rename it or give it a path`
+				});
+			}
+			return;
+		}
+
+		// A bare sub-part among lettered parts, e.g. '1iii' after '1aii', has usually lost its letter
+		if (parts.roman && !parts.letter && lettered.has(parts.number)) {
+			report({
+				rule: 'suspicious-question-sequence',
+				paperId,
+				questionId,
+				message: `Question ${questionId} has no part letter, but other parts of question ${parts.number} do`
+			});
+			return;
+		}
+
+		const previous = paper.questions[index - 1];
+		if (
+			previous &&
+			parseQuestionId(previous.id) &&
+			compareQuestionIds(previous.id, questionId) > 0
+		) {
+			report({
+				rule: 'suspicious-question-sequence',
+				paperId,
+				questionId,
+				message: `Question ${questionId} comes after ${previous.id}`
+			});
+		}
+	});
+}
+
+/**
+ * Lints every paper in the catalog, returning the findings in catalog order.
+ */
+export function lintCatalog(papers: Paper[]): LintFinding[] {
+	const findings: LintFinding[] = [];
+	const seenPaperIds = new Set<number>();
+
+	for (const paper of papers) {
+		const report = (finding: Omit<LintFinding, 'severity'>) =>
+			findings.push({ ...finding, severity: LINT_RULES[finding.rule] });
+
+		if (seenPaperIds.has(paper.id)) {
+			report({
+				rule: 'duplicate-paper-id',
+				paperId: paper.id,
+				message: `Paper id ${paper.id} is used by more than one paper`
+			});
+		}
+		seenPaperIds.add(paper.id);
+
+		lintPaper(paper, report);
+	}
+
+	return findings;
+}
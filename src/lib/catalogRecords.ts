@@ -0,0 +1,207 @@
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import type { GradeBoundary } from './grades';
+import type { ExtraResources, Paper, Question } from './pastPapers';
+
+/**
+ * Mapping between the `Paper`/`Question` catalog types and the PocketBase
+ * `papers` and `questions` collections.
+ *
+ * papers:    paper_id (number, unique), position, subject, board, year, season, paper,
+ *            total_marks, duration_minutes, url, markscheme_url, extra_resources (json),
+ *            grade_boundaries (json)
+ * questions: paper (relation -> papers), position, question_id, marks, display_name,
+ *            topics (json), path (json)
+ *
+ * This module has no `$env` imports so it can be shared by the server and the sync CLI.
+ */
+
+export const PAPERS_COLLECTION = 'papers';
+export const QUESTIONS_COLLECTION = 'questions';
+
+export function paperToRecord(paper: Paper, position: number) {
+	return {
+		paper_id: paper.id,
+		position,
+		subject: paper.subject,
+		board: paper.board,
+		year: paper.year,
+		season: paper.season,
+		paper: paper.paper,
+		// PocketBase stores an empty number field as 0, so write that to compare equal with it
+		total_marks: paper.totalMarks ?? 0,
+		duration_minutes: paper.durationMinutes ?? 0,
+		url: paper.url ?? '',
+		markscheme_url: paper.markschemeUrl ?? '',
+		extra_resources: paper.extraResources ?? null,
+		grade_boundaries: paper.gradeBoundaries ?? null
+	};
+}
+
+export function questionToRecord(question: Question, paperRecordId: string, position: number) {
+	return {
+		paper: paperRecordId,
+		position,
+		question_id: question.id,
+		marks: question.marks,
+		display_name: question.displayName ?? '',
+		topics: question.topics ?? null,
+		path: question.path ?? null
+	};
+}
+
+export function recordToQuestion(record: RecordModel): Question {
+	const question: Question = {
+		id: record.question_id,
+		marks: record.marks
+	};
+	if (record.display_name) question.displayName = record.display_name;
+	if (Array.isArray(record.topics) && record.topics.length > 0) {
+		question.topics = record.topics as string[];
+	}
+	if (Array.isArray(record.path) && record.path.length > 0) {
+		question.path = record.path as string[];
+	}
+	return question;
+}
+
+/**
+ * Builds a `Paper` from a `papers` record and its (already ordered) `questions` records.
+ */
+export function recordToPaper(record: RecordModel, questions: RecordModel[]): Paper {
+	const paper: Paper = {
+		id: record.paper_id,
+		subject: record.subject,
+		board: record.board,
+		year: record.year,
+		season: record.season,
+		paper: record.paper,
+		questions: questions.map(recordToQuestion)
+	};
+	// PocketBase returns 0 for an empty number field, which is never a real total
+	if (record.total_marks) paper.totalMarks = record.total_marks;
+	if (record.duration_minutes) paper.durationMinutes = record.duration_minutes;
+	if (record.url) paper.url = record.url;
+	if (record.markscheme_url) paper.markschemeUrl = record.markscheme_url;
+	if (Array.isArray(record.extra_resources) && record.extra_resources.length > 0) {
+		paper.extraResources = record.extra_resources as ExtraResources[];
+	}
+	if (Array.isArray(record.grade_boundaries) && record.grade_boundaries.length > 0) {
+		paper.gradeBoundaries = record.grade_boundaries as GradeBoundary[];
+	}
+	return paper;
+}
+
+/**
+ * Fetches the whole catalog from PocketBase, ordered the same way as the bundled array.
+ */
+export async function fetchCatalog(pb: PocketBase): Promise<Paper[]> {
+	const [paperRecords, questionRecords] = await Promise.all([
+		pb.collection(PAPERS_COLLECTION).getFullList({ sort: 'position' }),
+		pb.collection(QUESTIONS_COLLECTION).getFullList({ sort: 'position' })
+	]);
+
+	const questionsByPaper = new Map<string, RecordModel[]>();
+	for (const question of questionRecords) {
+		const list = questionsByPaper.get(question.paper) ?? [];
+		list.push(question);
+		questionsByPaper.set(question.paper, list);
+	}
+
+	return paperRecords.map((record) => recordToPaper(record, questionsByPaper.get(record.id) ?? []));
+}
+
+export interface SyncSummary {
+	papersCreated: number;
+	papersUpdated: number;
+	questionsCreated: number;
+	questionsUpdated: number;
+	questionsDeleted: number;
+}
+
+// Only compares the fields we write, so PocketBase system fields don't count as changes
+function hasChanges(record: RecordModel, data: Record<string, unknown>): boolean {
+	return Object.entries(data).some(
+		([key, value]) => JSON.stringify(record[key] ?? null) !== JSON.stringify(value ?? null)
+	);
+}
+
+/**
+ * Pushes the given papers to PocketBase. Papers are matched on `paper_id` and questions on
+ * (paper, question_id), so running it repeatedly never creates duplicates. Questions that
+ * no longer exist on a synced paper are deleted.
+ */
+export async function syncCatalog(
+	pb: PocketBase,
+	papers: Paper[],
+	options: { dryRun?: boolean } = {}
+): Promise<SyncSummary> {
+	const summary: SyncSummary = {
+		papersCreated: 0,
+		papersUpdated: 0,
+		questionsCreated: 0,
+		questionsUpdated: 0,
+		questionsDeleted: 0
+	};
+
+	const existingPapers = await pb.collection(PAPERS_COLLECTION).getFullList();
+	const existingQuestions = await pb.collection(QUESTIONS_COLLECTION).getFullList();
+
+	const papersById = new Map(existingPapers.map((record) => [record.paper_id as number, record]));
+	const questionsByPaper = new Map<string, Map<string, RecordModel>>();
+	for (const record of existingQuestions) {
+		const questions = questionsByPaper.get(record.paper) ?? new Map<string, RecordModel>();
+		questions.set(record.question_id, record);
+		questionsByPaper.set(record.paper, questions);
+	}
+
+	for (const [paperPosition, paper] of papers.entries()) {
+		const paperData = paperToRecord(paper, paperPosition);
+		const existing = papersById.get(paper.id);
+
+		if (!existing) {
+			summary.papersCreated++;
+			if (options.dryRun) {
+				summary.questionsCreated += paper.questions.length;
+				continue;
+			}
+		} else if (hasChanges(existing, paperData)) {
+			summary.papersUpdated++;
+			if (!options.dryRun) {
+				await pb.collection(PAPERS_COLLECTION).update(existing.id, paperData);
+			}
+		}
+
+		const paperRecord: RecordModel =
+			existing ?? (await pb.collection(PAPERS_COLLECTION).create(paperData));
+
+		const remaining = new Map(questionsByPaper.get(paperRecord.id));
+
+		for (const [questionPosition, question] of paper.questions.entries()) {
+			const questionData = questionToRecord(question, paperRecord.id, questionPosition);
+			const questionRecord = remaining.get(question.id);
+			remaining.delete(question.id);
+
+			if (!questionRecord) {
+				summary.questionsCreated++;
+				if (!options.dryRun) {
+					await pb.collection(QUESTIONS_COLLECTION).create(questionData);
+				}
+			} else if (hasChanges(questionRecord, questionData)) {
+				summary.questionsUpdated++;
+				if (!options.dryRun) {
+					await pb.collection(QUESTIONS_COLLECTION).update(questionRecord.id, questionData);
+				}
+			}
+		}
+
+		for (const stale of remaining.values()) {
+			summary.questionsDeleted++;
+			if (!options.dryRun) {
+				await pb.collection(QUESTIONS_COLLECTION).delete(stale.id);
+			}
+		}
+	}
+
+	return summary;
+}
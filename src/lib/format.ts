@@ -0,0 +1,17 @@
+/**
+ * Formatting for dates and durations shown in the app.
+ */
+
+export function formatDate(timestamp: string | null): string {
+	return timestamp ? new Date(timestamp).toLocaleDateString() : '-';
+}
+
+// Format a number of seconds as h:mm:ss, or m:ss under an hour
+export function formatDuration(totalSeconds: number): string {
+	const seconds = Math.floor(Math.abs(totalSeconds));
+	const h = Math.floor(seconds / 3600);
+	const m = Math.floor((seconds % 3600) / 60);
+	const s = (seconds % 60).toString().padStart(2, '0');
+	const sign = totalSeconds < 0 ? '-' : '';
+	return h > 0 ? `${sign}${h}:${m.toString().padStart(2, '0')}:${s}` : `${sign}${m}:${s}`;
+}
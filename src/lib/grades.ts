@@ -0,0 +1,31 @@
+import type { Paper } from './pastPapers';
+
+/**
+ * Grade boundaries, published by the board for each paper after results day.
+ *
+ * A paper's `gradeBoundaries` lists the minimum raw mark for each grade, e.g.
+ * `[{ grade: 'A*', marks: 112 }, { grade: 'A', marks: 95 }, ...]`. Grades use the usual
+ * A*-E for A-level and 9-1 for GCSE; anything below the lowest boundary is a U.
+ */
+
+export interface GradeBoundary {
+	grade: string;
+	marks: number;
+}
+
+// Awarded for a score below every boundary
+export const UNGRADED = 'U';
+
+/**
+ * Returns the grade a score on a paper would have earned, or `null` if the paper has no
+ * grade boundaries.
+ */
+export function getGrade(paper: Paper, score: number): string | null {
+	if (!paper.gradeBoundaries || paper.gradeBoundaries.length === 0) return null;
+
+	const boundary = [...paper.gradeBoundaries]
+		.sort((a, b) => b.marks - a.marks)
+		.find((b) => score >= b.marks);
+
+	return boundary ? boundary.grade : UNGRADED;
+}
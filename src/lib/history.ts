@@ -0,0 +1,229 @@
+import { LEGACY_ATTEMPT_ID } from './attempts';
+import { getGrade } from './grades';
+import type { QueuedChange } from './offlineQueue';
+import type { Paper } from './pastPapers';
+import type { AttemptMarks, PaperHistory } from './planner';
+import type { AttemptRecord, ScoreChange, ScoreRecord } from './repositories/types';
+
+/**
+ * Turns the attempt and score records loaded for a user into the shapes the pages work
+ * with: the marks in each attempt, the attempts on each paper, and the current marks.
+ *
+ * Marks are keyed by `${paperId}-${attemptId}` (see `attemptMarksKey`). The latest attempt
+ * on a paper is its current one; papers never re-sat use the legacy attempt, made up of
+ * scores saved before attempts existed.
+ */
+
+export type Attempt = Omit<AttemptRecord, 'user_id'>;
+
+export interface PaperScoreData {
+	score: number;
+	// Of the marks available on the questions that have been marked
+	percentage: number;
+	marked: number;
+	questions: number;
+	// Whether any question has been marked, even if it scored 0
+	attempted: boolean;
+	// Grade the score would have earned, or null if the paper has no grade boundaries
+	grade: string | null;
+}
+
+export function attemptMarksKey(paperId: number, attemptId: string): string {
+	return `${paperId}-${attemptId}`;
+}
+
+/**
+ * Groups score records into the marks for each attempt.
+ */
+export function groupMarksByAttempt(scores: ScoreRecord[]): Record<string, AttemptMarks> {
+	const marks: Record<string, AttemptMarks> = {};
+
+	for (const score of scores) {
+		const key = attemptMarksKey(parseInt(score.paper_id), score.attempt_id ?? LEGACY_ATTEMPT_ID);
+		(marks[key] ??= {})[score.question_id] = {
+			score: score.score,
+			note: score.note,
+			mistake: score.mistake,
+			updated: score.updated
+		};
+	}
+
+	return marks;
+}
+
+/**
+ * Merges score changes made on other devices, as streamed from /api/realtime, into the
+ * loaded score records. The last change wins: a remote change only replaces or removes a
+ * record that is no newer than it.
+ */
+export function mergeScoreChanges(scores: ScoreRecord[], changes: ScoreChange[]): ScoreRecord[] {
+	const merged = [...scores];
+
+	for (const { action, record } of changes) {
+		const index = merged.findIndex(
+			(s) =>
+				s.paper_id === record.paper_id &&
+				s.question_id === record.question_id &&
+				(s.attempt_id ?? LEGACY_ATTEMPT_ID) === (record.attempt_id ?? LEGACY_ATTEMPT_ID)
+		);
+		if (index !== -1 && merged[index].updated > record.updated) {
+			continue;
+		}
+
+		if (action === 'delete') {
+			if (index !== -1) merged.splice(index, 1);
+		} else if (index !== -1) {
+			merged[index] = record;
+		} else {
+			merged.push(record);
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Applies mark changes that haven't reached the server yet on top of the saved marks, so
+ * marks made offline show up after a reload. A save or clear is skipped if the saved mark
+ * was changed after it, as the server will do when it's uploaded; a reset always applies.
+ */
+export function applyMarkChanges(
+	marksByAttempt: Record<string, AttemptMarks>,
+	changes: QueuedChange[]
+): Record<string, AttemptMarks> {
+	const marks = { ...marksByAttempt };
+
+	for (const change of changes) {
+		const key = attemptMarksKey(parseInt(change.paper_id), change.attempt_id);
+
+		if (change.kind === 'reset') {
+			delete marks[key];
+			continue;
+		}
+
+		const attemptMarks = { ...marks[key] };
+		const saved = attemptMarks[change.question_id];
+		if (saved && saved.updated > change.queued) {
+			continue;
+		}
+
+		if (change.kind === 'save') {
+			attemptMarks[change.question_id] = {
+				score: change.score,
+				note: change.note,
+				mistake: change.mistake,
+				updated: change.queued
+			};
+		} else {
+			delete attemptMarks[change.question_id];
+		}
+
+		// An attempt with nothing marked has no entry, as in groupMarksByAttempt
+		if (Object.keys(attemptMarks).length > 0) {
+			marks[key] = attemptMarks;
+		} else {
+			delete marks[key];
+		}
+	}
+
+	return marks;
+}
+
+/**
+ * The attempts on a paper, oldest first, including the legacy attempt if it has any marks.
+ */
+export function getPaperAttempts(
+	paperId: number,
+	attempts: Attempt[],
+	marksByAttempt: Record<string, AttemptMarks>
+): Attempt[] {
+	const paperAttempts = attempts
+		.filter((attempt) => parseInt(attempt.paper_id) === paperId)
+		.sort((a, b) => a.started.localeCompare(b.started));
+	const legacyMarks = marksByAttempt[attemptMarksKey(paperId, LEGACY_ATTEMPT_ID)];
+
+	if (!legacyMarks) {
+		return paperAttempts;
+	}
+
+	const firstMarked = Object.values(legacyMarks)
+		.map((s) => s.updated)
+		.sort()[0];
+	return [
+		{
+			id: LEGACY_ATTEMPT_ID,
+			paper_id: paperId.toString(),
+			started: firstMarked,
+			time_limit_seconds: null,
+			elapsed_seconds: null
+		},
+		...paperAttempts
+	];
+}
+
+export function getCurrentAttemptId(paperId: number, attempts: Attempt[]): string {
+	const started = attempts
+		.filter((attempt) => parseInt(attempt.paper_id) === paperId)
+		.sort((a, b) => a.started.localeCompare(b.started));
+	return started.length > 0 ? started[started.length - 1].id : LEGACY_ATTEMPT_ID;
+}
+
+/**
+ * The marks in a paper's current attempt. A question without an entry hasn't been
+ * attempted yet, which is different from scoring 0.
+ */
+export function getCurrentMarks(
+	paperId: number,
+	attempts: Attempt[],
+	marksByAttempt: Record<string, AttemptMarks>
+): AttemptMarks {
+	return marksByAttempt[attemptMarksKey(paperId, getCurrentAttemptId(paperId, attempts))] ?? {};
+}
+
+/**
+ * Every paper's attempts with their marks, for the planner and trend charts.
+ */
+export function getPaperHistories(
+	papers: Paper[],
+	attempts: Attempt[],
+	marksByAttempt: Record<string, AttemptMarks>
+): PaperHistory[] {
+	return papers.map((paper) => ({
+		paper,
+		attempts: getPaperAttempts(paper.id, attempts, marksByAttempt).map(
+			(attempt) => marksByAttempt[attemptMarksKey(paper.id, attempt.id)] ?? {}
+		)
+	}));
+}
+
+// Total marks scored in one attempt
+export function getMarksTotal(marks: AttemptMarks): number {
+	return Object.values(marks).reduce((sum, s) => sum + s.score, 0);
+}
+
+// When a mark was last saved in one attempt
+export function getLastMarked(marks: AttemptMarks): string | null {
+	const times = Object.values(marks)
+		.map((s) => s.updated)
+		.sort();
+	return times.length > 0 ? times[times.length - 1] : null;
+}
+
+/**
+ * Scores a paper on its marked questions only, so a half-finished paper isn't shown as a
+ * low score.
+ */
+export function getPaperScoreData(paper: Paper, marks: AttemptMarks): PaperScoreData {
+	const markedQuestions = paper.questions.filter((q) => marks[q.id] !== undefined);
+	const score = markedQuestions.reduce((sum, q) => sum + marks[q.id].score, 0);
+	const markedTotal = markedQuestions.reduce((sum, q) => sum + q.marks, 0);
+
+	return {
+		score,
+		percentage: markedTotal > 0 ? Math.round((score / markedTotal) * 100) : 0,
+		marked: markedQuestions.length,
+		questions: paper.questions.length,
+		attempted: markedQuestions.length > 0,
+		grade: getGrade(paper, score)
+	};
+}
@@ -0,0 +1,71 @@
+/**
+ * Lets the Settings page offer to install ExamTracker as an app.
+ *
+ * Browsers that support installing fire `beforeinstallprompt` once the page qualifies,
+ * usually long before the user opens Settings, so the event is caught here from the
+ * layout and kept until the user asks to install. Browsers without the event, such as
+ * Safari, can still add the app to the home screen from their share menu.
+ */
+
+// Not in TypeScript's DOM types, as only Chromium-based browsers have it
+interface BeforeInstallPromptEvent extends Event {
+	prompt(): Promise<void>;
+	userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+interface InstallState {
+	// Whether the browser has offered to install the app
+	available: boolean;
+	// Whether the app is running installed, or has just been installed
+	installed: boolean;
+}
+
+export const installPrompt = $state<InstallState>({ available: false, installed: false });
+
+let deferredPrompt: BeforeInstallPromptEvent | null = null;
+
+/**
+ * Starts listening for the browser's install offer. Returns a function that stops it.
+ */
+export function listenForInstallPrompt(): () => void {
+	installPrompt.installed = window.matchMedia('(display-mode: standalone)').matches;
+
+	const onBeforeInstallPrompt = (event: Event) => {
+		// Keep the browser's own prompt back until the user asks for it in Settings
+		event.preventDefault();
+		deferredPrompt = event as BeforeInstallPromptEvent;
+		installPrompt.available = true;
+	};
+
+	const onInstalled = () => {
+		deferredPrompt = null;
+		installPrompt.available = false;
+		installPrompt.installed = true;
+	};
+
+	window.addEventListener('beforeinstallprompt', onBeforeInstallPrompt);
+	window.addEventListener('appinstalled', onInstalled);
+
+	return () => {
+		window.removeEventListener('beforeinstallprompt', onBeforeInstallPrompt);
+		window.removeEventListener('appinstalled', onInstalled);
+	};
+}
+
+/**
+ * Shows the browser's install prompt. Resolves to whether the user accepted it.
+ */
+export async function promptInstall(): Promise<boolean> {
+	if (!deferredPrompt) {
+		return false;
+	}
+
+	const event = deferredPrompt;
+	// Each prompt can only be shown once
+	deferredPrompt = null;
+	installPrompt.available = false;
+
+	await event.prompt();
+	const { outcome } = await event.userChoice;
+	return outcome === 'accepted';
+}
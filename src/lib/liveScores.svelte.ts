@@ -0,0 +1,78 @@
+import { invalidateAll } from '$app/navigation';
+import type { ScoreChange } from './repositories/types';
+
+/**
+ * Keeps the signed-in user's marks up to date with changes made on their other devices.
+ *
+ * The server streams every change to the user's scores from /api/realtime. The latest
+ * change to each question is kept here, and pages merge them into their loaded scores with
+ * `mergeScoreChanges` (see history.ts), so marks made on a laptop show up on a phone
+ * without a reload. If the stream drops, the browser reconnects by itself and the page
+ * data is reloaded to catch up on anything missed in between.
+ */
+
+interface LiveState {
+	// The latest change to each question, in the order they arrived
+	changes: ScoreChange[];
+	connected: boolean;
+}
+
+export const liveScores = $state<LiveState>({ changes: [], connected: false });
+
+function changeKey({ record }: ScoreChange): string {
+	return `${record.paper_id}|${record.attempt_id}|${record.question_id}`;
+}
+
+function addChange(change: ScoreChange): void {
+	const key = changeKey(change);
+	const existing = liveScores.changes.find((c) => changeKey(c) === key);
+
+	// Changes can arrive out of order; the last one made wins
+	if (existing && existing.record.updated > change.record.updated) {
+		return;
+	}
+
+	liveScores.changes = [...liveScores.changes.filter((c) => c !== existing), change];
+}
+
+/**
+ * Starts listening for a user's score changes. Returns a function that stops it again.
+ */
+export function startLiveScores(userId: string | null): () => void {
+	liveScores.changes = [];
+	liveScores.connected = false;
+
+	if (!userId) {
+		return () => {};
+	}
+
+	const source = new EventSource('/api/realtime');
+	let disconnected = false;
+
+	source.addEventListener('open', () => {
+		liveScores.connected = true;
+		if (disconnected) {
+			invalidateAll();
+		}
+	});
+
+	// Fired when the connection drops; EventSource gives up for good on an error response,
+	// such as the 501 from a store without live updates
+	source.addEventListener('error', () => {
+		liveScores.connected = false;
+		disconnected = true;
+	});
+
+	source.addEventListener('score', (event) => {
+		try {
+			addChange(JSON.parse(event.data));
+		} catch (error) {
+			console.error('Failed to read a score change:', error);
+		}
+	});
+
+	return () => {
+		source.close();
+		liveScores.connected = false;
+	};
+}
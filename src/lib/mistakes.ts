@@ -0,0 +1,75 @@
+import type { Paper } from './pastPapers';
+
+/**
+ * Why marks were lost on a question, recorded with its score when a paper is checked
+ * against the mark scheme, and totalled on the Performance page.
+ */
+
+export const mistakeIds = ['careless', 'misread', 'knowledge', 'time', 'technique'] as const;
+
+export type MistakeId = (typeof mistakeIds)[number];
+
+export interface MistakeCategory {
+	id: MistakeId;
+	name: string;
+}
+
+export const mistakeCategories: MistakeCategory[] = [
+	{ id: 'careless', name: 'Careless' },
+	{ id: 'misread', name: 'Misread question' },
+	{ id: 'knowledge', name: 'Knowledge gap' },
+	{ id: 'time', name: 'Ran out of time' },
+	{ id: 'technique', name: 'Exam technique' }
+];
+
+export function findMistakeName(id: MistakeId | ''): string {
+	return mistakeCategories.find((c) => c.id === id)?.name ?? '';
+}
+
+export interface LostMarks {
+	// null for marks lost on questions with no category recorded
+	category: MistakeId | null;
+	name: string;
+	lost: number;
+	// How many questions lost marks this way
+	questions: number;
+}
+
+/**
+ * Totals the marks lost per mistake category across every marked question, most marks
+ * lost first. Marks lost on questions without a category are counted under null.
+ *
+ * `getMark` returns the score and category for a question, or `undefined` if it hasn't
+ * been attempted. Unattempted questions are left out rather than counted as lost.
+ */
+export function getLostMarksByCategory(
+	papers: Paper[],
+	getMark: (
+		paperId: number,
+		questionId: string
+	) => { score: number; mistake: MistakeId | '' } | undefined
+): LostMarks[] {
+	const totals = new Map<MistakeId | null, LostMarks>();
+
+	for (const paper of papers) {
+		for (const question of paper.questions) {
+			const mark = getMark(paper.id, question.id);
+			const lost = mark ? question.marks - mark.score : 0;
+			if (!mark || lost <= 0) continue;
+
+			const category = mark.mistake || null;
+			const total = totals.get(category) ?? {
+				category,
+				name: category ? findMistakeName(category) : 'Not recorded',
+				lost: 0,
+				questions: 0
+			};
+
+			total.lost += lost;
+			total.questions++;
+			totals.set(category, total);
+		}
+	}
+
+	return [...totals.values()].sort((a, b) => b.lost - a.lost);
+}
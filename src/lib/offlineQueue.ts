@@ -0,0 +1,128 @@
+import type { MistakeId } from './mistakes';
+
+/**
+ * Mark changes waiting to be uploaded, kept in IndexedDB so they survive a reload or a
+ * dropped connection until they reach the server.
+ *
+ * Only the latest change to a question is kept: marking a question again replaces any
+ * queued change to it, and resetting an attempt replaces everything queued for it.
+ * Changes are uploaded in the order they were queued.
+ */
+
+const DB_NAME = 'examtracker';
+const DB_VERSION = 1;
+const STORE = 'markChanges';
+
+interface ChangeTarget {
+	// Changes belong to the account they were made in and are only uploaded for it
+	user_id: string;
+	paper_id: string;
+	attempt_id: string;
+}
+
+export type MarkChange =
+	| (ChangeTarget & {
+			kind: 'save';
+			question_id: string;
+			score: number;
+			note: string;
+			mistake: MistakeId | '';
+	  })
+	| (ChangeTarget & { kind: 'delete'; question_id: string })
+	| (ChangeTarget & { kind: 'reset' });
+
+export type QueuedChange = MarkChange & {
+	// Assigned by IndexedDB, increasing in the order changes were queued
+	id: number;
+	queued: string;
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+	database ??= new Promise((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+		request.onupgradeneeded = () => {
+			request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+	// Let a later call try again rather than keep returning the failure
+	database.catch(() => (database = null));
+	return database;
+}
+
+// Resolves once a transaction has been committed
+function completed(transaction: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () => reject(transaction.error);
+	});
+}
+
+// Whether a queued change is made redundant by a newer one
+function isReplacedBy(queued: QueuedChange, change: MarkChange): boolean {
+	if (
+		queued.user_id !== change.user_id ||
+		queued.paper_id !== change.paper_id ||
+		queued.attempt_id !== change.attempt_id
+	) {
+		return false;
+	}
+
+	if (change.kind === 'reset') {
+		return true;
+	}
+
+	return queued.kind !== 'reset' && queued.question_id === change.question_id;
+}
+
+/**
+ * Adds a change to the queue, replacing any queued changes it makes redundant.
+ */
+export async function queueChange(change: MarkChange): Promise<QueuedChange[]> {
+	const db = await openDatabase();
+	const transaction = db.transaction(STORE, 'readwrite');
+	const store = transaction.objectStore(STORE);
+
+	const request = store.openCursor();
+	request.onsuccess = () => {
+		const cursor = request.result;
+		if (cursor) {
+			if (isReplacedBy(cursor.value, change)) {
+				cursor.delete();
+			}
+			cursor.continue();
+		} else {
+			store.add({ ...change, queued: new Date().toISOString() });
+		}
+	};
+
+	await completed(transaction);
+	return listChanges(change.user_id);
+}
+
+/**
+ * The changes queued for a user, oldest first.
+ */
+export async function listChanges(userId: string): Promise<QueuedChange[]> {
+	const db = await openDatabase();
+	const transaction = db.transaction(STORE, 'readonly');
+	const request = transaction.objectStore(STORE).getAll();
+
+	await completed(transaction);
+	return (request.result as QueuedChange[]).filter((change) => change.user_id === userId);
+}
+
+/**
+ * Removes a change once it has been uploaded, or can never be.
+ */
+export async function removeChange(id: number): Promise<void> {
+	const db = await openDatabase();
+	const transaction = db.transaction(STORE, 'readwrite');
+	transaction.objectStore(STORE).delete(id);
+	await completed(transaction);
+}
@@ -1,3 +1,5 @@
+import type { GradeBoundary } from './grades';
+
 export interface Paper {
 	id: number;
 	subject: string;
@@ -10,12 +12,16 @@ export interface Paper {
 	questions: Question[]; // Questions for this paper
 	url?: string; // Optional URL to the paper
 	markschemeUrl?: string; // Optional URL to the mark scheme
+	gradeBoundaries?: GradeBoundary[]; // Optional minimum raw mark for each grade, see grades.ts
+	durationMinutes?: number; // Optional time allowed in the exam, used for timed attempts
 }
 
 export interface Question {
 	id: string; // Changed from number to string to support formats like "1a", "1.2", etc.
 	marks: number;
 	displayName?: string; // Optional display name if different from id
+	topics?: string[]; // Specification topic codes this question covers, see topics.ts
+	path?: string[]; // Position in the question tree, e.g. ['1', 'a', 'ii'], if it can't be parsed from id
 }
 
 export interface ExtraResources {
@@ -31,6 +37,7 @@ export const pastPapers: Paper[] = [
 		year: 2023,
 		season: 'Summer',
 		paper: 'H446/01 Computer Systems',
+		durationMinutes: 150,
 		url: 'https://www.ocr.org.uk/Images/703780-question-paper-computer-systems.pdf',
 		markschemeUrl: 'https://www.ocr.org.uk/Images/703953-mark-scheme-computer-systems.pdf',
 		questions: [
@@ -90,6 +97,7 @@ export const pastPapers: Paper[] = [
 		year: 2023,
 		season: 'Summer',
 		paper: 'H446/02 Algorithms and programming',
+		durationMinutes: 150,
 		url: 'https://www.ocr.org.uk/Images/703781-question-paper-algorithms-and-programming.pdf',
 		markschemeUrl:
 			'https://www.ocr.org.uk/Images/703954-mark-scheme-algorithms-and-programming.pdf',
@@ -123,15 +131,15 @@ export const pastPapers: Paper[] = [
 			{ id: '7d', marks: 6 },
 			{ id: '8a', marks: 3 },
 			{ id: '8b', marks: 2 },
-			{ id: '9ai', marks: 3 },
-			{ id: '9aii', marks: 3 },
-			{ id: '9bi', marks: 5 },
-			{ id: '9bii', marks: 2 },
-			{ id: '9biii', marks: 2 },
-			{ id: '9c', marks: 5 },
-			{ id: '9d', marks: 7 },
-			{ id: '9e', marks: 4 },
-			{ id: '9f', marks: 9 }
+			{ id: '9ai', marks: 3, topics: ['2.2'] },
+			{ id: '9aii', marks: 3, topics: ['2.2'] },
+			{ id: '9bi', marks: 5, topics: ['2.2'] },
+			{ id: '9bii', marks: 2, topics: ['2.2'] },
+			{ id: '9biii', marks: 2, topics: ['2.2'] },
+			{ id: '9c', marks: 5, topics: ['2.2'] },
+			{ id: '9d', marks: 7, topics: ['2.2'] },
+			{ id: '9e', marks: 4, topics: ['2.2'] },
+			{ id: '9f', marks: 9, topics: ['2.2'] }
 		],
 		totalMarks: 140
 	},
@@ -142,6 +150,7 @@ export const pastPapers: Paper[] = [
 		year: 2022,
 		season: 'Summer',
 		paper: 'H446/01 Computer Systems',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/676742-question-paper-computer-systems.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/676943-mark-scheme-computer-systems.pdf',
@@ -209,6 +218,7 @@ export const pastPapers: Paper[] = [
 		year: 2022,
 		season: 'Summer',
 		paper: 'H446/02 Algorithms and programming',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/676743-question-paper-algorithms-and-programming.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/676743-question-paper-algorithms-and-programming.pdf',
@@ -242,15 +252,15 @@ export const pastPapers: Paper[] = [
 			{ id: '7d', marks: 6 },
 			{ id: '8a', marks: 3 },
 			{ id: '8b', marks: 2 },
-			{ id: '9ai', marks: 3 },
-			{ id: '9aii', marks: 3 },
-			{ id: '9bi', marks: 5 },
-			{ id: '9bii', marks: 2 },
-			{ id: '9biii', marks: 2 },
-			{ id: '9c', marks: 5 },
-			{ id: '9d', marks: 7 },
-			{ id: '9e', marks: 4 },
-			{ id: '9f', marks: 9 }
+			{ id: '9ai', marks: 3, topics: ['2.2'] },
+			{ id: '9aii', marks: 3, topics: ['2.2'] },
+			{ id: '9bi', marks: 5, topics: ['2.2'] },
+			{ id: '9bii', marks: 2, topics: ['2.2'] },
+			{ id: '9biii', marks: 2, topics: ['2.2'] },
+			{ id: '9c', marks: 5, topics: ['2.2'] },
+			{ id: '9d', marks: 7, topics: ['2.2'] },
+			{ id: '9e', marks: 4, topics: ['2.2'] },
+			{ id: '9f', marks: 9, topics: ['2.2'] }
 		],
 		totalMarks: 140
 	},
@@ -261,6 +271,7 @@ export const pastPapers: Paper[] = [
 		year: 2021,
 		season: 'Autumn',
 		paper: 'H446/01 Computer Systems',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/666846-question-paper-paper-1-computer-systems.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/666849-mark-scheme-paper-1-computer-systems.pdf',
@@ -316,6 +327,7 @@ export const pastPapers: Paper[] = [
 		year: 2021,
 		season: 'Autumn',
 		paper: 'H446/02 Algorithms and programming',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/666846-question-paper-paper-2-computer-systems.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/666849-mark-scheme-paper-2-computer-systems.pdf',
@@ -344,16 +356,16 @@ export const pastPapers: Paper[] = [
 			{ id: '6b', marks: 2 },
 			{ id: '7a', marks: 4 },
 			{ id: '7b', marks: 5 },
-			{ id: '8ai', marks: 3 },
-			{ id: '8aii', marks: 2 },
-			{ id: '8aiii', marks: 3 },
-			{ id: '8bi', marks: 5 },
-			{ id: '8bii', marks: 2 },
-			{ id: '8biii', marks: 3 },
-			{ id: '8biv', marks: 6 },
-			{ id: '8bv', marks: 3 },
-			{ id: '8c', marks: 9 },
-			{ id: '8d', marks: 4 }
+			{ id: '8ai', marks: 3, topics: ['2.2'] },
+			{ id: '8aii', marks: 2, topics: ['2.2'] },
+			{ id: '8aiii', marks: 3, topics: ['2.2'] },
+			{ id: '8bi', marks: 5, topics: ['2.2'] },
+			{ id: '8bii', marks: 2, topics: ['2.2'] },
+			{ id: '8biii', marks: 3, topics: ['2.2'] },
+			{ id: '8biv', marks: 6, topics: ['2.2'] },
+			{ id: '8bv', marks: 3, topics: ['2.2'] },
+			{ id: '8c', marks: 9, topics: ['2.2'] },
+			{ id: '8d', marks: 4, topics: ['2.2'] }
 		],
 		totalMarks: 140
 	},
@@ -364,6 +376,7 @@ export const pastPapers: Paper[] = [
 		year: 2020,
 		season: 'Autumn',
 		paper: 'H446/01 Computer Systems',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/h446-01-nov-2020-qp-ocr-a-level-computer-science.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/h446-01-nov-2020-ms-ocr-a-level-computer-science.pdf',
@@ -418,6 +431,7 @@ export const pastPapers: Paper[] = [
 		year: 2020,
 		season: 'Autumn',
 		paper: 'H446/02 Algorithms and programming',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/h446-02-nov-2020-qp-ocr-a-level-computer-science.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/h446-02-nov-2020-ms-ocr-a-level-computer-science.pdf',
@@ -446,15 +460,15 @@ export const pastPapers: Paper[] = [
 			{ id: '5ciii', marks: 8 },
 			{ id: '5d', marks: 3 },
 			{ id: '5e', marks: 3 },
-			{ id: '6ai', marks: 2 },
-			{ id: '6aii', marks: 1 },
-			{ id: '6aiii', marks: 4 },
-			{ id: '6bi', marks: 4 },
-			{ id: '6bii', marks: 2 },
-			{ id: '6c', marks: 6 },
-			{ id: '6di', marks: 3 },
-			{ id: '6dii', marks: 6 },
-			{ id: '6e', marks: 12 }
+			{ id: '6ai', marks: 2, topics: ['2.2'] },
+			{ id: '6aii', marks: 1, topics: ['2.2'] },
+			{ id: '6aiii', marks: 4, topics: ['2.2'] },
+			{ id: '6bi', marks: 4, topics: ['2.2'] },
+			{ id: '6bii', marks: 2, topics: ['2.2'] },
+			{ id: '6c', marks: 6, topics: ['2.2'] },
+			{ id: '6di', marks: 3, topics: ['2.2'] },
+			{ id: '6dii', marks: 6, topics: ['2.2'] },
+			{ id: '6e', marks: 12, topics: ['2.2'] }
 		],
 		totalMarks: 140
 	},
@@ -465,6 +479,7 @@ export const pastPapers: Paper[] = [
 		year: 2019,
 		season: 'Summer',
 		paper: 'H446/01 Computer Systems',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/h446-01-june-2019-qp-ocr-a-level-computer-science.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/h446-01-june-2019-ms-ocr-a-level-computer-science.pdf',
@@ -532,6 +547,7 @@ export const pastPapers: Paper[] = [
 		year: 2019,
 		season: 'Summer',
 		paper: 'H446/02 Algorithms and programming',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/h446-02-june-2019-qp-ocr-a-level-computer-science.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/h446-02-june-2019-ms-ocr-a-level-computer-science.pdf',
@@ -565,15 +581,15 @@ export const pastPapers: Paper[] = [
 			{ id: '5a', marks: 6 },
 			{ id: '5b', marks: 2 },
 			{ id: '6', marks: 9 },
-			{ id: '7ai', marks: 2 },
-			{ id: '7aii', marks: 3 },
-			{ id: '7aiii', marks: 3 },
-			{ id: '7bi', marks: 4 },
-			{ id: '7bii', marks: 5 },
-			{ id: '7biii', marks: 4 },
-			{ id: '7biv', marks: 4 },
-			{ id: '7bv', marks: 6 },
-			{ id: '7c', marks: 9 }
+			{ id: '7ai', marks: 2, topics: ['2.2'] },
+			{ id: '7aii', marks: 3, topics: ['2.2'] },
+			{ id: '7aiii', marks: 3, topics: ['2.2'] },
+			{ id: '7bi', marks: 4, topics: ['2.2'] },
+			{ id: '7bii', marks: 5, topics: ['2.2'] },
+			{ id: '7biii', marks: 4, topics: ['2.2'] },
+			{ id: '7biv', marks: 4, topics: ['2.2'] },
+			{ id: '7bv', marks: 6, topics: ['2.2'] },
+			{ id: '7c', marks: 9, topics: ['2.2'] }
 		],
 		totalMarks: 140
 	},
@@ -584,6 +600,7 @@ export const pastPapers: Paper[] = [
 		year: 2018,
 		season: 'Summer',
 		paper: 'H446/01 Computer Systems',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/h446-01-june-2018-qp-ocr-a-level-computer-science.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/h446-01-june-2018-ms-ocr-a-level-computer-science.pdf',
@@ -645,6 +662,7 @@ export const pastPapers: Paper[] = [
 		year: 2018,
 		season: 'Summer',
 		paper: 'H446/02 Algorithms and programming',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/h446-02-june-2018-qp-ocr-a-level-computer-science.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/h446-02-june-2019-ms-ocr-a-level-computer-science.pdf',
@@ -677,17 +695,17 @@ export const pastPapers: Paper[] = [
 			{ id: '5di', marks: 5 },
 			{ id: '5dii', marks: 7 },
 			{ id: '5diii', marks: 4 },
-			{ id: '6ai', marks: 3 },
-			{ id: '6aii', marks: 5 },
-			{ id: '6aiii', marks: 3 },
-			{ id: '6bi', marks: 2 },
-			{ id: '6bii', marks: 2 },
-			{ id: '6biii', marks: 2 },
-			{ id: '6biv', marks: 6 },
-			{ id: '6bv', marks: 1 },
-			{ id: '6bvi', marks: 5 },
-			{ id: '6bvii', marks: 2 },
-			{ id: '6c', marks: 9 }
+			{ id: '6ai', marks: 3, topics: ['2.2'] },
+			{ id: '6aii', marks: 5, topics: ['2.2'] },
+			{ id: '6aiii', marks: 3, topics: ['2.2'] },
+			{ id: '6bi', marks: 2, topics: ['2.2'] },
+			{ id: '6bii', marks: 2, topics: ['2.2'] },
+			{ id: '6biii', marks: 2, topics: ['2.2'] },
+			{ id: '6biv', marks: 6, topics: ['2.2'] },
+			{ id: '6bv', marks: 1, topics: ['2.2'] },
+			{ id: '6bvi', marks: 5, topics: ['2.2'] },
+			{ id: '6bvii', marks: 2, topics: ['2.2'] },
+			{ id: '6c', marks: 9, topics: ['2.2'] }
 		],
 		totalMarks: 140
 	},
@@ -698,6 +716,7 @@ export const pastPapers: Paper[] = [
 		year: 2017,
 		season: 'Summer',
 		paper: 'H446/01 Computer Systems',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2022/02/h446-01-june-2017-qp-ocr-a-level-computer-science.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2022/02/h446-01-june-2017-ms-ocr-a-level-computer-science.pdf',
@@ -762,6 +781,7 @@ export const pastPapers: Paper[] = [
 		year: 2017,
 		season: 'Summer',
 		paper: 'H446/02 Algorithms and programming',
+		durationMinutes: 150,
 		url: 'https://cdn.savemyexams.com/uploads/2024/04/h446-02-june-2017-qp-ocr-a-level-computer-science.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2024/04/h446-02-june-2017-ms-ocr-a-level-computer-science.pdf',
@@ -793,17 +813,17 @@ export const pastPapers: Paper[] = [
 			{ id: '5a', marks: 1 },
 			{ id: '5b', marks: 5 },
 			{ id: '5c', marks: 4 },
-			{ id: '6a', marks: 3 },
-			{ id: '6bi', marks: 2 },
-			{ id: '6bii', marks: 6 },
-			{ id: '6ci', marks: 3 },
-			{ id: '6cii', marks: 3 },
-			{ id: '6di', marks: 4 },
-			{ id: '6dii', marks: 2 },
-			{ id: '6diii', marks: 5 },
-			{ id: '6e', marks: 9 },
-			{ id: '6fi', marks: 1 },
-			{ id: '6fii', marks: 2 }
+			{ id: '6a', marks: 3, topics: ['2.2'] },
+			{ id: '6bi', marks: 2, topics: ['2.2'] },
+			{ id: '6bii', marks: 6, topics: ['2.2'] },
+			{ id: '6ci', marks: 3, topics: ['2.2'] },
+			{ id: '6cii', marks: 3, topics: ['2.2'] },
+			{ id: '6di', marks: 4, topics: ['2.2'] },
+			{ id: '6dii', marks: 2, topics: ['2.2'] },
+			{ id: '6diii', marks: 5, topics: ['2.2'] },
+			{ id: '6e', marks: 9, topics: ['2.2'] },
+			{ id: '6fi', marks: 1, topics: ['2.2'] },
+			{ id: '6fii', marks: 2, topics: ['2.2'] }
 		],
 		totalMarks: 140
 	},
@@ -820,6 +840,7 @@ export const pastPapers: Paper[] = [
 		year: 2023,
 		season: 'Summer',
 		paper: '7408/1 Physics Paper 1',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2023/june/AQA-74081-QP-JUN23.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2023/june/AQA-74081-MS-JUN23.PDF',
@@ -891,6 +912,7 @@ export const pastPapers: Paper[] = [
 		year: 2023,
 		season: 'Summer',
 		paper: '7408/2 Physics Paper 2',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2023/june/AQA-74082-QP-JUN23.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2023/june/AQA-74082-MS-JUN23.PDF',
@@ -1179,6 +1201,7 @@ export const pastPapers: Paper[] = [
 		year: 2022,
 		season: 'Summer',
 		paper: '7408/1 Physics Paper 1',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2022/june/AQA-74081-QP-JUN22.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2022/june/AQA-74081-MS-JUN22.PDF',
@@ -1252,6 +1275,7 @@ export const pastPapers: Paper[] = [
 		year: 2022,
 		season: 'Summer',
 		paper: '7408/2 Physics Paper 2',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2022/june/AQA-74082-QP-JUN22.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2022/june/AQA-74082-MS-JUN22.PDF',
@@ -1358,6 +1382,7 @@ export const pastPapers: Paper[] = [
 		year: 2021,
 		season: 'Summer',
 		paper: '7408/1 Physics Paper 1',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2021/november/AQA-74081-QP-NOV21.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2021/november/AQA-74081-MS-NOV21.PDF',
@@ -1426,6 +1451,7 @@ export const pastPapers: Paper[] = [
 		year: 2021,
 		season: 'Summer',
 		paper: '7408/2 Physics Paper 2',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2021/november/AQA-74082-QP-NOV21.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2021/november/AQA-74082-MS-NOV21.PDF',
@@ -1539,6 +1565,7 @@ export const pastPapers: Paper[] = [
 		year: 2020,
 		season: 'Summer',
 		paper: '7408/1 Physics Paper 1',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2020/november/AQA-74081-QP-NOV20.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2020/november/AQA-74081-W-MS-NOV20.PDF',
@@ -1608,6 +1635,7 @@ export const pastPapers: Paper[] = [
 		year: 2020,
 		season: 'Summer',
 		paper: '7408/2 Physics Paper 2',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2020/november/AQA-74082-QP-NOV20.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2020/november/AQA-74082-W-MS-NOV20.PDF',
@@ -1726,6 +1754,7 @@ export const pastPapers: Paper[] = [
 		year: 2019,
 		season: 'Summer',
 		paper: '7408/1 Physics Paper 1',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2019/june/AQA-74081-QP-JUN19.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2019/june/AQA-74081-W-MS-JUN19.PDF',
@@ -1799,6 +1828,7 @@ export const pastPapers: Paper[] = [
 		year: 2019,
 		season: 'Summer',
 		paper: '7408/2 Physics Paper 2',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2019/june/AQA-74082-QP-JUN19.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2019/june/AQA-74082-QP-JUN19.PDF',
@@ -1911,6 +1941,7 @@ export const pastPapers: Paper[] = [
 		year: 2018,
 		season: 'Summer',
 		paper: '7408/1 Physics Paper 1',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2018/june/AQA-74081-QP-JUN18.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2018/june/AQA-74081-W-MS-JUN18.PDF',
@@ -1980,6 +2011,7 @@ export const pastPapers: Paper[] = [
 		year: 2018,
 		season: 'Summer',
 		paper: '7408/2 Physics Paper 2',
+		durationMinutes: 120,
 		url: 'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2018/june/AQA-74082-QP-JUN18.PDF',
 		markschemeUrl:
 			'https://filestore.aqa.org.uk/sample-papers-and-mark-schemes/2019/june/AQA-74083A-W-MS-JUN19.PDF',
@@ -2094,6 +2126,7 @@ export const pastPapers: Paper[] = [
 		year: 2017,
 		season: 'Sample',
 		paper: 'Pure Mathematics 1',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2022/12/edexcel-al-maths-specimen-p1-qp.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2022/12/edexcel-al-maths-specimen-p1-ms.pdf',
@@ -2152,6 +2185,7 @@ export const pastPapers: Paper[] = [
 		year: 2017,
 		season: 'Sample',
 		paper: 'Pure Mathematics 2',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2022/12/edexcel-al-maths-specimen-p2-qp.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2022/12/edexcel-al-maths-specimen-p2-ms.pdf',
@@ -2262,6 +2296,7 @@ export const pastPapers: Paper[] = [
 		year: 2023,
 		season: 'Summer',
 		paper: 'Pure Mathematics 1',
+		durationMinutes: 120,
 		url: 'https://qualifications.pearson.com/content/dam/pdf/A-Level/Mathematics/2017/Exam-materials/9ma0-01-que-20230607.pdf',
 		markschemeUrl:
 			'https://qualifications.pearson.com/content/dam/pdf/A-Level/Mathematics/2017/Exam-materials/9ma0-01-rms-20230817.pdf',
@@ -2378,6 +2413,7 @@ export const pastPapers: Paper[] = [
 		year: 2022,
 		season: 'Summer',
 		paper: 'Pure Mathematics 1',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2023/08/9ma0-01--qp--a-level-pure-mathematics-1---may-2022-pdf.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2023/08/9ma0-01--ms--a-level-pure-mathematics-1---may-2022-pdf.pdf',
@@ -2436,6 +2472,7 @@ export const pastPapers: Paper[] = [
 		year: 2022,
 		season: 'Summer',
 		paper: 'Pure Mathematics 2',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2023/08/9ma0-02---qp---a-level-pure-mathematics-2---june-2022-pdf.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2023/08/9ma0-02---ms---a-level-pure-mathematics-2---june-2022-pdf.pdf',
@@ -2448,8 +2485,7 @@ export const pastPapers: Paper[] = [
 			{ id: '3b', marks: 2 },
 			{ id: '4', marks: 3 },
 			{ id: '5a', marks: 3 },
-			{ id: '5bi', marks: 1.5 },
-			{ id: '5bii', marks: 1.5 },
+			{ id: '5b', marks: 3 },
 			{ id: '6a', marks: 4 },
 			{ id: '6b', marks: 1 },
 			{ id: '6c', marks: 2 },
@@ -2571,6 +2607,7 @@ export const pastPapers: Paper[] = [
 		year: 2023,
 		season: 'Summer',
 		paper: 'Pure Mathematics 2',
+		durationMinutes: 120,
 		url: 'https://qualifications.pearson.com/content/dam/pdf/A-Level/Mathematics/2017/Exam-materials/9ma0-02-que-20230614.pdf',
 		markschemeUrl:
 			'https://qualifications.pearson.com/content/dam/pdf/A-Level/Mathematics/2017/Exam-materials/9ma0-02-rms-20230817.pdf',
@@ -2672,6 +2709,7 @@ export const pastPapers: Paper[] = [
 		year: 2021,
 		season: 'Autumn',
 		paper: 'Pure Mathematics 1',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2023/01/edexcel-al-maths-2021-p1-qp.pdf',
 		markschemeUrl: 'https://cdn.savemyexams.com/uploads/2023/01/edexcel-al-maths-2021-p1-ms.pdf',
 		questions: [
@@ -2723,6 +2761,7 @@ export const pastPapers: Paper[] = [
 		year: 2021,
 		season: 'Autumn',
 		paper: 'Pure Mathematics 2',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2023/01/edexcel-al-maths-2021-p2-qp.pdf',
 		markschemeUrl: 'https://cdn.savemyexams.com/uploads/2023/01/edexcel-al-maths-2021-p2-ms.pdf',
 		questions: [
@@ -2780,6 +2819,7 @@ export const pastPapers: Paper[] = [
 		year: 2020,
 		season: 'Autumn',
 		paper: 'Pure Mathematics 1',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2022/01/9MA0-01-A-level-Pure-Maths-Nov-2020-QP.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2022/01/9MA0-01-A-level-Pure-Maths-Nov-2020-MS.pdf',
@@ -2833,6 +2873,7 @@ export const pastPapers: Paper[] = [
 		year: 2020,
 		season: 'Autumn',
 		paper: 'Pure Mathematics 2',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2022/01/9MA0-02-A-level-Pure-Maths-Nov-2020-QP.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2022/01/9MA0-02-A-level-Pure-Maths-Nov-2020-MS.pdf',
@@ -2885,6 +2926,7 @@ export const pastPapers: Paper[] = [
 		year: 2019,
 		season: 'Summer',
 		paper: 'Pure Mathematics 1',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2021/09/9MA0-A-level-Paper-1-pure-Maths-June-2019-QP.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2021/09/9MA0-A-level-Paper-1-pure-Maths-June-2019-MS.pdf',
@@ -2943,6 +2985,7 @@ export const pastPapers: Paper[] = [
 		year: 2019,
 		season: 'Summer',
 		paper: 'Pure Mathematics 2',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2021/09/9MA0-A-level-Paper-2-pure-Maths-June-2019-QP.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2021/09/9MA0-A-level-Paper-2-pure-Maths-June-2019-MS.pdf',
@@ -2998,6 +3041,7 @@ export const pastPapers: Paper[] = [
 		year: 2018,
 		season: 'Summer',
 		paper: 'Pure Mathematics 1',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2019/09/9MA0_01-Pure-Mathematics-1-A-Level-Edexcel-Maths.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2019/09/9MA0_01-Pure-Mathematics-1-MS-A-Level-Edexcel-Maths.pdf',
@@ -3052,6 +3096,7 @@ export const pastPapers: Paper[] = [
 		year: 2018,
 		season: 'Summer',
 		paper: 'Pure Mathematics 2',
+		durationMinutes: 120,
 		url: 'https://cdn.savemyexams.com/uploads/2019/09/9MA0_02-Pure-Mathematics-2-A-Level-Edexcel-Maths.pdf',
 		markschemeUrl:
 			'https://cdn.savemyexams.com/uploads/2019/09/9MA0_02-Pure-Mathematics-2-MS-A-Level-Edexcel-Maths.pdf',
@@ -1,43 +1,154 @@
-import PocketBase from 'pocketbase';
-import {
-	CF_ACCESS_CLIENT_SECRET,
-	CF_ACCESS_CLIENT_ID,
-	PB_EMAIL,
-	PB_PASSWORD
-} from '$env/static/private';
-
-// Create a factory function to get a fresh PocketBase instance for each request
-export async function getPocketBaseClient(authenticate = true) {
-	const pb = new PocketBase('https://pocketbase-cs0kgg4044kg80ws4sggws44.a1dn.dev');
-	
-	// Add Cloudflare Access headers before any request is sent
-	pb.beforeSend = function (url, options) {
-		// Initialize headers if they don't exist
-		options.headers = options.headers || {};
-
-		// Add Cloudflare Access headers
-		options.headers['CF-Access-Client-Id'] = CF_ACCESS_CLIENT_ID;
-		options.headers['CF-Access-Client-Secret'] = CF_ACCESS_CLIENT_SECRET;
-
-		return { url, options };
+import PocketBase, { isTokenExpired } from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import { env } from '$env/dynamic/private';
+
+/**
+ * How the server authenticates with PocketBase for data access:
+ * - `superuser`: as a `_superusers` account (PB_EMAIL / PB_PASSWORD)
+ * - `service`: as a regular auth record, e.g. a dedicated user whose API rules grant access
+ *   (PB_EMAIL / PB_PASSWORD in the PB_SERVICE_COLLECTION collection, `users` by default)
+ * - `none`: no authentication, for backends whose collection rules are public
+ */
+export type PocketBaseAuthMode = 'superuser' | 'service' | 'none';
+
+export interface PocketBaseConfig {
+	url: string;
+	authMode: PocketBaseAuthMode;
+	serviceCollection: string;
+	email: string;
+	password: string;
+	// Only set when the backend sits behind Cloudflare Access
+	cfAccess: { clientId: string; clientSecret: string } | null;
+}
+
+const AUTH_MODES: PocketBaseAuthMode[] = ['superuser', 'service', 'none'];
+
+/**
+ * Reads the PocketBase settings from the environment. Read at request time so each
+ * wrangler environment (production, staging) can point at its own backend.
+ */
+export function getPocketBaseConfig(): PocketBaseConfig {
+	if (!env.PB_URL) {
+		throw new Error('PB_URL is not set. Add your PocketBase URL to .env or wrangler.toml');
+	}
+
+	const authMode = (env.PB_AUTH_MODE || 'superuser') as PocketBaseAuthMode;
+	if (!AUTH_MODES.includes(authMode)) {
+		throw new Error(`Unknown PB_AUTH_MODE "${authMode}", expected ${AUTH_MODES.join(', ')}`);
+	}
+
+	return {
+		url: env.PB_URL,
+		authMode,
+		serviceCollection: env.PB_SERVICE_COLLECTION || 'users',
+		email: env.PB_EMAIL ?? '',
+		password: env.PB_PASSWORD ?? '',
+		cfAccess:
+			env.CF_ACCESS_CLIENT_ID && env.CF_ACCESS_CLIENT_SECRET
+				? { clientId: env.CF_ACCESS_CLIENT_ID, clientSecret: env.CF_ACCESS_CLIENT_SECRET }
+				: null
 	};
-	
-	// Authenticate if required
-	if (authenticate) {
+}
+
+/**
+ * Thrown when the server can't sign in to PocketBase with its configured credentials.
+ * API routes return it as a 503, since the backend is unusable until it's fixed.
+ */
+export class PocketBaseAuthError extends Error {
+	constructor(message: string, cause?: unknown) {
+		super(message, { cause });
+		this.name = 'PocketBaseAuthError';
+	}
+}
+
+// Sign in again this long before the cached token expires, so it never lapses mid-request
+const REFRESH_MARGIN_SECONDS = 5 * 60;
+
+interface CachedAuth {
+	// Which backend and account the token belongs to
+	key: string;
+	token: string;
+	record: RecordModel;
+}
+
+// Shared by every request the worker handles, so the server signs in once per token lifetime
+let cachedAuth: CachedAuth | null = null;
+
+function authCollection(config: PocketBaseConfig): string {
+	return config.authMode === 'superuser' ? '_superusers' : config.serviceCollection;
+}
+
+async function signIn(pb: PocketBase, config: PocketBaseConfig, key: string): Promise<CachedAuth> {
+	const collection = pb.collection(authCollection(config));
+
+	// Refresh a token that is still valid rather than sending the password again
+	if (cachedAuth?.key === key && !isTokenExpired(cachedAuth.token)) {
+		pb.authStore.save(cachedAuth.token, cachedAuth.record);
 		try {
-			await pb.collection('_superusers').authWithPassword(PB_EMAIL, PB_PASSWORD);
-		} catch (error) {
-			console.error('Failed to authenticate with PocketBase:', error);
-			// Continue even if authentication fails
+			const { token, record } = await collection.authRefresh();
+			return { key, token, record };
+		} catch {
+			pb.authStore.clear();
 		}
 	}
-	
-	return pb;
+
+	try {
+		const { token, record } = await collection.authWithPassword(config.email, config.password);
+		return { key, token, record };
+	} catch (error) {
+		throw new PocketBaseAuthError('Failed to authenticate with PocketBase', error);
+	}
 }
 
-// For backward compatibility with existing code
-// Note: This is synchronous and won't include authentication
-export const pb = (() => {
-	console.warn('Using the global PocketBase instance is deprecated in Cloudflare Workers. Use getPocketBaseClient() instead.');
-	return getPocketBaseClient(false);
-})();
+/**
+ * Returns a token for the configured service account, reusing the cached one until it is
+ * close to expiring. Only the token is shared between requests, never a pending promise,
+ * since Workers don't allow one request to wait on I/O started by another.
+ */
+async function getServiceAuth(pb: PocketBase, config: PocketBaseConfig): Promise<CachedAuth> {
+	const key = `${config.url}|${authCollection(config)}|${config.email}`;
+
+	if (cachedAuth?.key === key && !isTokenExpired(cachedAuth.token, REFRESH_MARGIN_SECONDS)) {
+		return cachedAuth;
+	}
+
+	try {
+		cachedAuth = await signIn(pb, config, key);
+		return cachedAuth;
+	} catch (error) {
+		cachedAuth = null;
+		throw error;
+	}
+}
+
+/**
+ * Creates a PocketBase client for one request. With `authenticate`, it is signed in as the
+ * configured service account using the cached token; throws a `PocketBaseAuthError` if
+ * that fails.
+ */
+export async function getPocketBaseClient(authenticate = true) {
+	const config = getPocketBaseConfig();
+	const pb = new PocketBase(config.url);
+
+	// Add Cloudflare Access headers before any request is sent, if configured
+	if (config.cfAccess) {
+		const { clientId, clientSecret } = config.cfAccess;
+
+		pb.beforeSend = function (url, options) {
+			// Initialize headers if they don't exist
+			options.headers = options.headers || {};
+
+			options.headers['CF-Access-Client-Id'] = clientId;
+			options.headers['CF-Access-Client-Secret'] = clientSecret;
+
+			return { url, options };
+		};
+	}
+
+	if (authenticate && config.authMode !== 'none') {
+		const { token, record } = await getServiceAuth(pb, config);
+		pb.authStore.save(token, record);
+	}
+
+	return pb;
+}
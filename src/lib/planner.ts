@@ -0,0 +1,182 @@
+import type { MistakeId } from './mistakes';
+import type { Paper, Question } from './pastPapers';
+
+/**
+ * Spaced-repetition revision planner. Papers and questions that went badly are scheduled
+ * for another go, and each time they're practised again the gap before the next review
+ * doubles, so weak areas come round often at first and then less and less.
+ *
+ * Schedules are worked out from the score history every time, so the only thing stored is
+ * what the user did with an item (a `ReviewState`): how many times they marked it done, and
+ * whether it is snoozed.
+ */
+
+// Papers below this percentage in their latest attempt are scheduled for a re-attempt
+export const WEAK_PAPER_PERCENTAGE = 70;
+
+// Questions below this percentage are scheduled on their own
+export const WEAK_QUESTION_PERCENTAGE = 50;
+
+// The longest gap between reviews, however many times an item has been practised
+export const MAX_INTERVAL_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewState {
+	item: string;
+	// How many times the item has been marked done
+	reviews: number;
+	reviewed: string | null;
+	snoozed_until: string | null;
+}
+
+// Marks from one attempt on a paper, keyed by question id
+export type AttemptMarks = Record<
+	string,
+	{ score: number; note: string; mistake: MistakeId | ''; updated: string }
+>;
+
+export interface PaperHistory {
+	paper: Paper;
+	// Every attempt on the paper, oldest first
+	attempts: AttemptMarks[];
+}
+
+export interface RevisionItem {
+	// `ReviewState.item` for this item, see paperItemKey and questionItemKey
+	key: string;
+	kind: 'paper' | 'question';
+	paper: Paper;
+	question?: Question;
+	// Percentage in the latest attempt that marked it
+	percentage: number;
+	// When it was last practised or marked done
+	lastPractised: string;
+	// Earlier attempts plus times marked done, each of which doubles the interval
+	repetitions: number;
+	intervalDays: number;
+	due: string;
+	snoozed: boolean;
+}
+
+export function paperItemKey(paperId: number): string {
+	return `paper:${paperId}`;
+}
+
+export function questionItemKey(paperId: number, questionId: string): string {
+	return `question:${paperId}:${questionId}`;
+}
+
+// Days before the first review, sooner the worse it went
+function baseIntervalDays(percentage: number): number {
+	if (percentage < 40) return 1;
+	if (percentage < 55) return 2;
+	return 4;
+}
+
+function latest(timestamps: (string | null | undefined)[]): string {
+	const sorted = timestamps.filter((t): t is string => !!t).sort();
+	return sorted[sorted.length - 1] ?? '';
+}
+
+function scheduleItem(
+	base: Omit<RevisionItem, 'intervalDays' | 'due' | 'snoozed' | 'repetitions'>,
+	earlierAttempts: number,
+	review: ReviewState | undefined
+): RevisionItem {
+	const repetitions = earlierAttempts + (review?.reviews ?? 0);
+	const intervalDays = Math.min(
+		MAX_INTERVAL_DAYS,
+		baseIntervalDays(base.percentage) * 2 ** repetitions
+	);
+	const lastPractised = latest([base.lastPractised, review?.reviewed]);
+
+	const scheduled = new Date(
+		new Date(lastPractised).getTime() + intervalDays * DAY_MS
+	).toISOString();
+	const snoozedUntil = review?.snoozed_until ?? '';
+	const snoozed = snoozedUntil > scheduled;
+
+	return {
+		...base,
+		lastPractised,
+		repetitions,
+		intervalDays,
+		due: snoozed ? snoozedUntil : scheduled,
+		snoozed
+	};
+}
+
+/**
+ * Works out the revision schedule for every weak paper and question, soonest due first.
+ *
+ * A paper is scheduled from its latest attempt with any marks, using the percentage of the
+ * marked questions. Its questions are scheduled from the same attempt, and each earlier
+ * attempt that marked the paper (or question) counts as one repetition.
+ */
+export function getRevisionPlan(histories: PaperHistory[], reviews: ReviewState[]): RevisionItem[] {
+	const reviewsByItem = new Map(reviews.map((review) => [review.item, review]));
+	const items: RevisionItem[] = [];
+
+	for (const { paper, attempts } of histories) {
+		const marked = attempts.filter((marks) => Object.keys(marks).length > 0);
+		const current = marked[marked.length - 1];
+		if (!current) continue;
+
+		const markedQuestions = paper.questions.filter((q) => current[q.id] !== undefined);
+		const gained = markedQuestions.reduce((sum, q) => sum + current[q.id].score, 0);
+		const available = markedQuestions.reduce((sum, q) => sum + q.marks, 0);
+		const percentage = available > 0 ? Math.round((gained / available) * 100) : 0;
+
+		if (percentage < WEAK_PAPER_PERCENTAGE) {
+			const key = paperItemKey(paper.id);
+			items.push(
+				scheduleItem(
+					{
+						key,
+						kind: 'paper',
+						paper,
+						percentage,
+						lastPractised: latest(Object.values(current).map((s) => s.updated))
+					},
+					marked.length - 1,
+					reviewsByItem.get(key)
+				)
+			);
+		}
+
+		for (const question of markedQuestions) {
+			const { score, updated } = current[question.id];
+			const questionPercentage =
+				question.marks > 0 ? Math.round((score / question.marks) * 100) : 100;
+			if (questionPercentage >= WEAK_QUESTION_PERCENTAGE) continue;
+
+			const key = questionItemKey(paper.id, question.id);
+			items.push(
+				scheduleItem(
+					{
+						key,
+						kind: 'question',
+						paper,
+						question,
+						percentage: questionPercentage,
+						lastPractised: updated
+					},
+					marked.filter((marks) => marks !== current && marks[question.id] !== undefined).length,
+					reviewsByItem.get(key)
+				)
+			);
+		}
+	}
+
+	return items.sort((a, b) => a.due.localeCompare(b.due) || a.percentage - b.percentage);
+}
+
+/**
+ * Whether an item is due by the end of the day `now` falls on, in local time.
+ */
+export function isDue(item: RevisionItem, now = new Date()): boolean {
+	const endOfDay = new Date(now);
+	endOfDay.setHours(23, 59, 59, 999);
+	return new Date(item.due) <= endOfDay;
+}
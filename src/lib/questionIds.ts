@@ -0,0 +1,104 @@
+/**
+ * Parser for the question ids used in the catalog, which mix several conventions:
+ * '1aii', '2iii', '4b', '01.3'. Ids are broken into their number, part and sub-part so
+ * they can be shown in one canonical form ("1(a)(ii)", "1.3") and sorted naturally.
+ */
+
+export interface QuestionIdParts {
+	number: number;
+	// AQA-style numbered part, e.g. 3 in '01.3'
+	subNumber?: number;
+	// Lettered part, e.g. 'a' in '1aii'
+	letter?: string;
+	// Roman numeral sub-part, e.g. 'ii' in '1aii' or 'iii' in '2iii'
+	roman?: string;
+}
+
+const ROMAN_NUMERALS = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii', 'ix', 'x'];
+
+/**
+ * Parses a question id, or returns `null` if it isn't in a recognised format.
+ *
+ * Letters after the number are a part, then a roman numeral sub-part. A lone 'i', 'v' or
+ * 'x' is read as a roman numeral ('4i' is 4(i)), since papers rarely letter that far.
+ * Brackets and spaces are ignored, so '1(a)(ii)' parses the same as '1aii'.
+ */
+export function parseQuestionId(id: string): QuestionIdParts | null {
+	const normalized = id.toLowerCase().replace(/[\s()]/g, '');
+
+	const dotted = normalized.match(/^(\d+)\.(\d+)$/);
+	if (dotted) return { number: Number(dotted[1]), subNumber: Number(dotted[2]) };
+
+	const match = normalized.match(/^(\d+)([a-z]*)$/);
+	if (!match) return null;
+
+	const number = Number(match[1]);
+	const rest = match[2];
+
+	if (rest === '') return { number };
+	if (ROMAN_NUMERALS.includes(rest)) return { number, roman: rest };
+	if (rest.length === 1) return { number, letter: rest };
+	if (ROMAN_NUMERALS.includes(rest.slice(1))) {
+		return { number, letter: rest[0], roman: rest.slice(1) };
+	}
+
+	return null;
+}
+
+export function formatQuestionIdParts(parts: QuestionIdParts): string {
+	let formatted = String(parts.number);
+	if (parts.subNumber !== undefined) formatted += `.${parts.subNumber}`;
+	if (parts.letter) formatted += `(${parts.letter})`;
+	if (parts.roman) formatted += `(${parts.roman})`;
+	return formatted;
+}
+
+/**
+ * Formats a question id canonically, e.g. '1aii' -> '1(a)(ii)' and '01.3' -> '1.3'.
+ * Ids that don't parse are returned unchanged.
+ */
+export function formatQuestionId(id: string): string {
+	const parts = parseQuestionId(id);
+	return parts ? formatQuestionIdParts(parts) : id;
+}
+
+/**
+ * The label to show for a question: its `displayName` if it has one, otherwise the
+ * canonical form of its id.
+ */
+export function getQuestionLabel(question: { id: string; displayName?: string }): string {
+	return question.displayName || formatQuestionId(question.id);
+}
+
+// Sorts a missing component before any present one, so 1 comes before 1(a)
+function compareOptional<T>(a: T | undefined, b: T | undefined, compare: (a: T, b: T) => number) {
+	if (a === undefined && b === undefined) return 0;
+	if (a === undefined) return -1;
+	if (b === undefined) return 1;
+	return compare(a, b);
+}
+
+/**
+ * Compares two question ids in natural order: 2 before 10, 1(a)(ii) before 1(a)(iv).
+ * Ids that don't parse sort after those that do, then alphabetically.
+ */
+export function compareQuestionIds(a: string, b: string): number {
+	const partsA = parseQuestionId(a);
+	const partsB = parseQuestionId(b);
+
+	if (!partsA || !partsB) {
+		if (partsA || partsB) return partsA ? -1 : 1;
+		return a.localeCompare(b, undefined, { numeric: true });
+	}
+
+	return (
+		partsA.number - partsB.number ||
+		compareOptional(partsA.subNumber, partsB.subNumber, (x, y) => x - y) ||
+		compareOptional(partsA.letter, partsB.letter, (x, y) => x.localeCompare(y)) ||
+		compareOptional(
+			partsA.roman,
+			partsB.roman,
+			(x, y) => ROMAN_NUMERALS.indexOf(x) - ROMAN_NUMERALS.indexOf(y)
+		)
+	);
+}
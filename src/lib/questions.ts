@@ -0,0 +1,160 @@
+import type { Paper, Question } from './pastPapers';
+import { compareQuestionIds, parseQuestionId } from './questionIds';
+
+/**
+ * Groups a paper's flat question list into a tree of question -> part -> sub-part, so
+ * 1a(i) and 1a(ii) can be shown and totalled under question 1.
+ *
+ * Each question's position comes from its `path` if it has one, otherwise it is parsed
+ * from the id (see questionIds.ts): '7' -> ['7'], '1b' -> ['1', 'b'],
+ * '1aii' -> ['1', 'a', 'ii'], '2iii' -> ['2', 'iii'] and '01.3' -> ['1', '3']. Ids that
+ * can't be parsed become top-level nodes of their own.
+ */
+
+export interface QuestionNode {
+	// Path segments joined with '.', unique within a paper
+	key: string;
+	// Last path segment, e.g. 'ii'
+	label: string;
+	path: string[];
+	// The marked question at this position, if there is one (parent nodes usually have none)
+	question?: Question;
+	children: QuestionNode[];
+	// Total marks of this question and everything below it
+	marks: number;
+}
+
+export function getTotalMarks(paper: Paper): number {
+	return paper.questions.reduce((sum, q) => sum + q.marks, 0);
+}
+
+export function getQuestionPath(question: Question): string[] {
+	if (question.path) return question.path;
+
+	const parts = parseQuestionId(question.id);
+	if (!parts) return [question.id];
+
+	const path = [String(parts.number)];
+	if (parts.subNumber !== undefined) path.push(String(parts.subNumber));
+	if (parts.letter) path.push(parts.letter);
+	if (parts.roman) path.push(parts.roman);
+	return path;
+}
+
+/**
+ * Builds the question tree for a paper's questions, keeping them in catalog order.
+ */
+export function buildQuestionTree(questions: Question[]): QuestionNode[] {
+	const roots: QuestionNode[] = [];
+	const nodes = new Map<string, QuestionNode>();
+
+	for (const question of questions) {
+		const path = getQuestionPath(question);
+		let siblings = roots;
+
+		path.forEach((label, depth) => {
+			const nodePath = path.slice(0, depth + 1);
+			const key = nodePath.join('.');
+			let node = nodes.get(key);
+
+			if (!node) {
+				node = { key, label, path: nodePath, children: [], marks: 0 };
+				nodes.set(key, node);
+				siblings.push(node);
+			}
+
+			node.marks += question.marks;
+			if (depth === path.length - 1) node.question = question;
+			siblings = node.children;
+		});
+	}
+
+	return roots;
+}
+
+/**
+ * Lists the marked questions at or below a node in order, with how deep each sits below it.
+ */
+export function flattenQuestionNode(
+	node: QuestionNode,
+	depth = 0
+): { question: Question; depth: number }[] {
+	const own = node.question ? [{ question: node.question, depth }] : [];
+	return [...own, ...node.children.flatMap((child) => flattenQuestionNode(child, depth + 1))];
+}
+
+/**
+ * Sums the marks gained at or below a node. `getMark` returns `undefined` for unmarked
+ * questions, which count as 0.
+ */
+export function getNodeScore(
+	node: QuestionNode,
+	getMark: (questionId: string) => number | undefined
+): number {
+	return flattenQuestionNode(node).reduce(
+		(sum, { question }) => sum + (getMark(question.id) ?? 0),
+		0
+	);
+}
+
+export interface QuestionNumberPerformance {
+	// The paper name shared by every paper counted, e.g. 'H446/01 Computer Systems'
+	paper: string;
+	subject: string;
+	board: string;
+	number: string;
+	gained: number;
+	available: number;
+	percentage: number;
+	// How many papers had this question number attempted
+	papers: number;
+}
+
+/**
+ * Totals the marks per top-level question number across papers that share a name, e.g.
+ * question 1 of every H446/01 paper, since boards tend to keep each question on the same
+ * area of the course. Ordered by paper name, then question number.
+ *
+ * Only marked questions count; unattempted ones are left out rather than counted as 0.
+ */
+export function getQuestionNumberPerformance(
+	papers: Paper[],
+	getMark: (paperId: number, questionId: string) => number | undefined
+): QuestionNumberPerformance[] {
+	const totals = new Map<string, QuestionNumberPerformance>();
+
+	for (const paper of papers) {
+		for (const node of buildQuestionTree(paper.questions)) {
+			const marked = flattenQuestionNode(node).filter(
+				({ question }) => getMark(paper.id, question.id) !== undefined
+			);
+			if (marked.length === 0) continue;
+
+			const key = `${paper.subject}-${paper.board}-${paper.paper}-${node.key}`;
+			const total = totals.get(key) ?? {
+				paper: paper.paper,
+				subject: paper.subject,
+				board: paper.board,
+				number: node.label,
+				gained: 0,
+				available: 0,
+				percentage: 0,
+				papers: 0
+			};
+
+			for (const { question } of marked) {
+				total.gained += getMark(paper.id, question.id) ?? 0;
+				total.available += question.marks;
+			}
+			total.papers++;
+			totals.set(key, total);
+		}
+	}
+
+	return [...totals.values()]
+		.map((total) => ({
+			...total,
+			percentage: total.available > 0 ? Math.round((total.gained / total.available) * 100) : 0
+		}))
+		.sort((a, b) => a.paper.localeCompare(b.paper) || compareQuestionIds(a.number, b.number));
+}
@@ -0,0 +1,260 @@
+import { generateId } from './ids';
+import type {
+	AttemptKey,
+	AttemptRecord,
+	ReviewRecord,
+	ScoreInput,
+	ScoreRecord,
+	ScoreRepository
+} from './types';
+
+/**
+ * Stores scores, attempts and reviews in SQLite through a Cloudflare D1 binding. Locally,
+ * `wrangler dev` backs the binding with a SQLite file. The tables are created by the
+ * SQL files in migrations/. D1 has no change feed, so scores can't be watched live.
+ */
+
+// The parts of the D1 binding API used here
+export interface D1PreparedStatement {
+	bind(...values: unknown[]): D1PreparedStatement;
+	all<T = Record<string, unknown>>(): Promise<{ results: T[] }>;
+	first<T = Record<string, unknown>>(): Promise<T | null>;
+	run(): Promise<{ meta: { changes: number } }>;
+}
+
+export interface D1Database {
+	prepare(query: string): D1PreparedStatement;
+	batch(statements: D1PreparedStatement[]): Promise<unknown[]>;
+}
+
+// A NULL note or mistake keeps the stored one
+const UPSERT_SCORE = `
+	INSERT INTO scores (id, user_id, paper_id, question_id, attempt_id, score, updated, note, mistake)
+	VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, COALESCE(?8, ''), COALESCE(?9, ''))
+	ON CONFLICT (user_id, paper_id, question_id, attempt_id)
+	DO UPDATE SET score = excluded.score, updated = excluded.updated,
+		note = COALESCE(?8, scores.note), mistake = COALESCE(?9, scores.mistake)
+	WHERE excluded.updated >= scores.updated
+	RETURNING *`;
+
+const UPSERT_REVIEW = `
+	INSERT INTO reviews (id, user_id, item, reviews, reviewed, snoozed_until, updated)
+	VALUES (?, ?, ?, ?, ?, ?, ?)
+	ON CONFLICT (user_id, item)
+	DO UPDATE SET reviews = excluded.reviews, reviewed = excluded.reviewed,
+		snoozed_until = excluded.snoozed_until, updated = excluded.updated
+	RETURNING *`;
+
+export function createD1Repository(db: D1Database): ScoreRepository {
+	function upsertStatement(
+		key: AttemptKey,
+		questionId: string,
+		score: number,
+		updated: string,
+		details: Pick<ScoreInput, 'note' | 'mistake'> = {},
+		id = generateId()
+	) {
+		return db
+			.prepare(UPSERT_SCORE)
+			.bind(
+				id,
+				key.user_id,
+				key.paper_id,
+				questionId,
+				key.attempt_id,
+				score,
+				updated,
+				details.note ?? null,
+				details.mistake ?? null
+			);
+	}
+
+	return {
+		async getPaperScores(userId, paperId, attemptId) {
+			const statement =
+				attemptId === undefined
+					? db
+							.prepare('SELECT * FROM scores WHERE user_id = ? AND paper_id = ? ORDER BY updated')
+							.bind(userId, paperId)
+					: db
+							.prepare(
+								'SELECT * FROM scores WHERE user_id = ? AND paper_id = ? AND attempt_id = ? ORDER BY updated'
+							)
+							.bind(userId, paperId, attemptId);
+
+			const { results } = await statement.all<ScoreRecord>();
+			return results;
+		},
+
+		async getUserScores(userId) {
+			const { results } = await db
+				.prepare('SELECT * FROM scores WHERE user_id = ? ORDER BY updated')
+				.bind(userId)
+				.all<ScoreRecord>();
+			return results;
+		},
+
+		async saveScore(input) {
+			const id = generateId();
+			const { results } = await upsertStatement(
+				input,
+				input.question_id,
+				input.score,
+				input.updated ?? new Date().toISOString(),
+				input,
+				id
+			).all<ScoreRecord>();
+
+			// Nothing is returned when the stored score is newer, so it is kept
+			if (results.length === 0) {
+				const existing = await db
+					.prepare(
+						'SELECT * FROM scores WHERE user_id = ? AND paper_id = ? AND attempt_id = ? AND question_id = ?'
+					)
+					.bind(input.user_id, input.paper_id, input.attempt_id, input.question_id)
+					.first<ScoreRecord>();
+				return { record: existing as ScoreRecord, created: false };
+			}
+
+			// An update keeps the existing row's id rather than the one we generated
+			return { record: results[0], created: results[0].id === id };
+		},
+
+		/**
+		 * D1 runs a batch as one transaction.
+		 */
+		async savePaperScores(key, scores) {
+			const updated = new Date().toISOString();
+			if (scores.length > 0) {
+				await db.batch(
+					scores.map(({ question_id, score }) => upsertStatement(key, question_id, score, updated))
+				);
+			}
+			return scores.length;
+		},
+
+		async deleteScore(key, questionId, updated) {
+			const result = await db
+				.prepare(
+					'DELETE FROM scores WHERE user_id = ? AND paper_id = ? AND attempt_id = ? AND question_id = ? AND updated <= ?'
+				)
+				.bind(
+					key.user_id,
+					key.paper_id,
+					key.attempt_id,
+					questionId,
+					updated ?? new Date().toISOString()
+				)
+				.run();
+			return result.meta.changes > 0;
+		},
+
+		async deletePaperScores(key) {
+			const result = await db
+				.prepare('DELETE FROM scores WHERE user_id = ? AND paper_id = ? AND attempt_id = ?')
+				.bind(key.user_id, key.paper_id, key.attempt_id)
+				.run();
+			return result.meta.changes;
+		},
+
+		async listAttempts(userId, paperId) {
+			const statement =
+				paperId === undefined
+					? db.prepare('SELECT * FROM attempts WHERE user_id = ? ORDER BY started').bind(userId)
+					: db
+							.prepare('SELECT * FROM attempts WHERE user_id = ? AND paper_id = ? ORDER BY started')
+							.bind(userId, paperId);
+
+			const { results } = await statement.all<AttemptRecord>();
+			return results;
+		},
+
+		async startAttempt(userId, paperId, options = {}) {
+			const attempt: AttemptRecord = {
+				id: generateId(),
+				user_id: userId,
+				paper_id: paperId,
+				started: new Date().toISOString(),
+				time_limit_seconds: options.timeLimitSeconds ?? null,
+				elapsed_seconds: null
+			};
+			await db
+				.prepare(
+					'INSERT INTO attempts (id, user_id, paper_id, started, time_limit_seconds) VALUES (?, ?, ?, ?, ?)'
+				)
+				.bind(
+					attempt.id,
+					attempt.user_id,
+					attempt.paper_id,
+					attempt.started,
+					attempt.time_limit_seconds
+				)
+				.run();
+			return attempt;
+		},
+
+		async finishAttempt(userId, attemptId, elapsedSeconds) {
+			return db
+				.prepare('UPDATE attempts SET elapsed_seconds = ? WHERE id = ? AND user_id = ? RETURNING *')
+				.bind(elapsedSeconds, attemptId, userId)
+				.first<AttemptRecord>();
+		},
+
+		async listReviews(userId) {
+			const { results } = await db
+				.prepare('SELECT * FROM reviews WHERE user_id = ?')
+				.bind(userId)
+				.all<ReviewRecord>();
+			return results;
+		},
+
+		async saveReview(userId, item, update) {
+			const review = await db
+				.prepare(UPSERT_REVIEW)
+				.bind(
+					generateId(),
+					userId,
+					item,
+					update.reviews,
+					update.reviewed,
+					update.snoozed_until,
+					new Date().toISOString()
+				)
+				.first<ReviewRecord>();
+			if (!review) {
+				throw new Error(`Failed to save the review for ${item}`);
+			}
+			return review;
+		},
+
+		async reassignUser(fromUserId, toUserId) {
+			const sameQuestion = `s.paper_id = scores.paper_id AND s.question_id = scores.question_id
+				AND s.attempt_id = scores.attempt_id`;
+
+			const [{ results: movedScores }, { results: movedAttempts }] = await Promise.all([
+				db.prepare('SELECT id FROM scores WHERE user_id = ?').bind(fromUserId).all(),
+				db.prepare('SELECT id FROM attempts WHERE user_id = ?').bind(fromUserId).all()
+			]);
+
+			await db.batch([
+				// Drop whichever of two clashing scores is older
+				db
+					.prepare(
+						`DELETE FROM scores WHERE user_id = ? AND EXISTS (
+							SELECT 1 FROM scores s WHERE s.user_id = ? AND ${sameQuestion} AND s.updated > scores.updated)`
+					)
+					.bind(toUserId, fromUserId),
+				db
+					.prepare(
+						`DELETE FROM scores WHERE user_id = ? AND EXISTS (
+							SELECT 1 FROM scores s WHERE s.user_id = ? AND ${sameQuestion})`
+					)
+					.bind(fromUserId, toUserId),
+				db.prepare('UPDATE scores SET user_id = ? WHERE user_id = ?').bind(toUserId, fromUserId),
+				db.prepare('UPDATE attempts SET user_id = ? WHERE user_id = ?').bind(toUserId, fromUserId)
+			]);
+
+			return { scores: movedScores.length, attempts: movedAttempts.length };
+		}
+	};
+}
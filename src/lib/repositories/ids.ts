@@ -0,0 +1,8 @@
+// PocketBase-style 15 character ids, so ids look the same whichever store is used
+export function generateId(): string {
+	const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+	return Array.from(
+		{ length: 15 },
+		() => alphabet[Math.floor(Math.random() * alphabet.length)]
+	).join('');
+}
@@ -0,0 +1,46 @@
+import { env } from '$env/dynamic/private';
+import { createD1Repository } from './d1';
+import { createMemoryRepository } from './memory';
+import { createPocketBaseRepository } from './pocketbase';
+import type { ScoreRepository } from './types';
+
+export type {
+	AttemptKey,
+	AttemptRecord,
+	ReviewRecord,
+	ReviewUpdate,
+	ScoreChange,
+	ScoreInput,
+	ScoreRecord,
+	ScoreRepository
+} from './types';
+
+// Shared across requests so the in-memory store keeps its data while the server runs
+let memoryRepository: ScoreRepository | null = null;
+
+/**
+ * Picks the score store from the SCORE_STORE environment variable:
+ * - `pocketbase` (default): the PocketBase `scores`, `attempts` and `reviews` collections
+ * - `memory`: in-process storage for development and tests, lost on restart
+ * - `d1`: SQLite through the Cloudflare D1 binding named `DB`
+ */
+export function getScoreRepository(platform?: App.Platform): ScoreRepository {
+	const store = env.SCORE_STORE || 'pocketbase';
+
+	switch (store) {
+		case 'pocketbase':
+			return createPocketBaseRepository();
+		case 'memory':
+			memoryRepository ??= createMemoryRepository();
+			return memoryRepository;
+		case 'd1': {
+			const db = platform?.env?.DB;
+			if (!db) {
+				throw new Error('SCORE_STORE is "d1" but no D1 binding named DB is configured');
+			}
+			return createD1Repository(db);
+		}
+		default:
+			throw new Error(`Unknown SCORE_STORE "${store}", expected pocketbase, memory or d1`);
+	}
+}
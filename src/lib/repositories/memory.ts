@@ -0,0 +1,222 @@
+import { generateId } from './ids';
+import type {
+	AttemptKey,
+	AttemptRecord,
+	ReviewRecord,
+	ScoreChange,
+	ScoreInput,
+	ScoreRecord,
+	ScoreRepository
+} from './types';
+
+/**
+ * Keeps scores, attempts and reviews in memory. Data lasts as long as the server process, which
+ * makes it useful for local development and tests without a backend.
+ */
+
+function inAttempt(score: ScoreRecord, key: AttemptKey): boolean {
+	return (
+		score.user_id === key.user_id &&
+		score.paper_id === key.paper_id &&
+		score.attempt_id === key.attempt_id
+	);
+}
+
+function byUpdated(a: ScoreRecord, b: ScoreRecord): number {
+	return a.updated.localeCompare(b.updated);
+}
+
+export function createMemoryRepository(): ScoreRepository {
+	let scores: ScoreRecord[] = [];
+	const attempts: AttemptRecord[] = [];
+	const reviews: ReviewRecord[] = [];
+	// Listeners from watchScores, by user id
+	const watchers = new Map<string, Set<(change: ScoreChange) => void>>();
+
+	function notify(action: ScoreChange['action'], record: ScoreRecord) {
+		for (const listener of watchers.get(record.user_id) ?? []) {
+			listener({ action, record: { ...record } });
+		}
+	}
+
+	function upsert(
+		key: AttemptKey,
+		questionId: string,
+		score: number,
+		updated: string,
+		details: Pick<ScoreInput, 'note' | 'mistake'> = {}
+	) {
+		const existing = scores.find((s) => inAttempt(s, key) && s.question_id === questionId);
+		if (existing) {
+			// A newer mark is already stored
+			if (existing.updated > updated) {
+				return { record: { ...existing }, created: false };
+			}
+
+			existing.score = score;
+			existing.note = details.note ?? existing.note;
+			existing.mistake = details.mistake ?? existing.mistake;
+			existing.updated = updated;
+			notify('update', existing);
+			return { record: { ...existing }, created: false };
+		}
+
+		const record: ScoreRecord = {
+			id: generateId(),
+			...key,
+			question_id: questionId,
+			score,
+			note: details.note ?? '',
+			mistake: details.mistake ?? '',
+			updated
+		};
+		scores.push(record);
+		notify('update', record);
+		return { record: { ...record }, created: true };
+	}
+
+	return {
+		async getPaperScores(userId, paperId, attemptId) {
+			return scores
+				.filter(
+					(s) =>
+						s.user_id === userId &&
+						s.paper_id === paperId &&
+						(attemptId === undefined || s.attempt_id === attemptId)
+				)
+				.sort(byUpdated)
+				.map((s) => ({ ...s }));
+		},
+
+		async getUserScores(userId) {
+			return scores
+				.filter((s) => s.user_id === userId)
+				.sort(byUpdated)
+				.map((s) => ({ ...s }));
+		},
+
+		async saveScore(input) {
+			return upsert(
+				input,
+				input.question_id,
+				input.score,
+				input.updated ?? new Date().toISOString(),
+				input
+			);
+		},
+
+		async savePaperScores(key, paperScores) {
+			const updated = new Date().toISOString();
+			for (const { question_id, score } of paperScores) {
+				upsert(key, question_id, score, updated);
+			}
+			return paperScores.length;
+		},
+
+		async deleteScore(key, questionId, updated) {
+			const deleted = scores.filter(
+				(s) =>
+					inAttempt(s, key) &&
+					s.question_id === questionId &&
+					(updated === undefined || s.updated <= updated)
+			);
+			scores = scores.filter((s) => !deleted.includes(s));
+			deleted.forEach((s) => notify('delete', s));
+			return deleted.length > 0;
+		},
+
+		async deletePaperScores(key) {
+			const deleted = scores.filter((s) => inAttempt(s, key));
+			scores = scores.filter((s) => !inAttempt(s, key));
+			deleted.forEach((s) => notify('delete', s));
+			return deleted.length;
+		},
+
+		async listAttempts(userId, paperId) {
+			return attempts
+				.filter((a) => a.user_id === userId && (paperId === undefined || a.paper_id === paperId))
+				.sort((a, b) => a.started.localeCompare(b.started))
+				.map((a) => ({ ...a }));
+		},
+
+		async startAttempt(userId, paperId, options = {}) {
+			const attempt: AttemptRecord = {
+				id: generateId(),
+				user_id: userId,
+				paper_id: paperId,
+				started: new Date().toISOString(),
+				time_limit_seconds: options.timeLimitSeconds ?? null,
+				elapsed_seconds: null
+			};
+			attempts.push(attempt);
+			return { ...attempt };
+		},
+
+		async finishAttempt(userId, attemptId, elapsedSeconds) {
+			const attempt = attempts.find((a) => a.id === attemptId && a.user_id === userId);
+			if (!attempt) return null;
+
+			attempt.elapsed_seconds = elapsedSeconds;
+			return { ...attempt };
+		},
+
+		async listReviews(userId) {
+			return reviews.filter((r) => r.user_id === userId).map((r) => ({ ...r }));
+		},
+
+		async saveReview(userId, item, update) {
+			const updated = new Date().toISOString();
+			const existing = reviews.find((r) => r.user_id === userId && r.item === item);
+			if (existing) {
+				Object.assign(existing, update, { updated });
+				return { ...existing };
+			}
+
+			const review: ReviewRecord = { id: generateId(), user_id: userId, item, ...update, updated };
+			reviews.push(review);
+			return { ...review };
+		},
+
+		async reassignUser(fromUserId, toUserId) {
+			const movedAttempts = attempts.filter((a) => a.user_id === fromUserId);
+			for (const attempt of movedAttempts) {
+				attempt.user_id = toUserId;
+			}
+
+			const movedScores = scores.filter((s) => s.user_id === fromUserId);
+			for (const score of movedScores) {
+				const existing = scores.find(
+					(s) =>
+						s.user_id === toUserId &&
+						s.paper_id === score.paper_id &&
+						s.question_id === score.question_id &&
+						s.attempt_id === score.attempt_id
+				);
+
+				if (existing && existing.updated >= score.updated) {
+					scores = scores.filter((s) => s !== score);
+					continue;
+				}
+
+				if (existing) {
+					scores = scores.filter((s) => s !== existing);
+				}
+				score.user_id = toUserId;
+			}
+
+			return { scores: movedScores.length, attempts: movedAttempts.length };
+		},
+
+		async watchScores(userId, listener, signal) {
+			if (signal.aborted) return;
+
+			const listeners = watchers.get(userId) ?? new Set();
+			watchers.set(userId, listeners.add(listener));
+
+			await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }));
+
+			listeners.delete(listener);
+			if (listeners.size === 0) watchers.delete(userId);
+		}
+	};
+}
@@ -0,0 +1,414 @@
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import { getPocketBaseClient, getPocketBaseConfig } from '../pb';
+import type {
+	AttemptKey,
+	AttemptRecord,
+	ReviewRecord,
+	ScoreRecord,
+	ScoreRepository
+} from './types';
+
+/**
+ * Stores scores, attempts and reviews in the PocketBase `scores`, `attempts` and `reviews`
+ * collections, accessed as the superuser.
+ */
+
+// PocketBase dates look like '2024-05-01 09:30:00.000Z'; the app compares ISO strings
+function toIsoDate(value: string): string {
+	return value ? new Date(value.replace(' ', 'T')).toISOString() : value;
+}
+
+// Scores are ordered by when they were changed on the device, which PocketBase's own `updated`
+// can't hold: it is set by the server and ignores any value sent for it. Records saved before
+// `changed` existed have it empty and fall back to `updated`
+const OLDEST_FIRST = 'changed,updated';
+const NEWEST_FIRST = '-changed,-updated';
+
+function toScore(record: RecordModel): ScoreRecord {
+	return {
+		id: record.id,
+		user_id: record.user_id,
+		paper_id: record.paper_id,
+		question_id: record.question_id,
+		attempt_id: record.attempt_id ?? '',
+		// Older records stored the score as a string
+		score: Number(record.score) || 0,
+		note: record.note ?? '',
+		mistake: record.mistake ?? '',
+		updated: toIsoDate(record.changed || record.updated)
+	};
+}
+
+function toAttempt(record: RecordModel): AttemptRecord {
+	return {
+		id: record.id,
+		user_id: record.user_id,
+		paper_id: record.paper_id,
+		started: record.started,
+		// PocketBase returns 0 for an empty number field, which is never a real time
+		time_limit_seconds: record.time_limit_seconds || null,
+		elapsed_seconds: record.elapsed_seconds || null
+	};
+}
+
+function toReview(record: RecordModel): ReviewRecord {
+	return {
+		id: record.id,
+		user_id: record.user_id,
+		item: record.item,
+		reviews: Number(record.reviews) || 0,
+		// PocketBase returns '' for an empty date field
+		reviewed: record.reviewed || null,
+		snoozed_until: record.snoozed_until || null,
+		updated: record.updated
+	};
+}
+
+interface ServerSentEvent {
+	event: string;
+	data: string;
+}
+
+// Reads a text/event-stream body, calling `onEvent` for each event until the stream ends
+async function readEventStream(
+	body: ReadableStream<Uint8Array>,
+	onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+	const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = '';
+
+	for (;;) {
+		const { value, done } = await reader.read();
+		if (done) return;
+
+		buffer += value.replace(/\r\n?/g, '\n');
+		let end: number;
+		while ((end = buffer.indexOf('\n\n')) !== -1) {
+			const block = buffer.slice(0, end);
+			buffer = buffer.slice(end + 2);
+
+			const event: ServerSentEvent = { event: 'message', data: '' };
+			for (const line of block.split('\n')) {
+				const [field, ...rest] = line.split(':');
+				const content = rest.join(':').replace(/^ /, '');
+				if (field === 'event') event.event = content;
+				if (field === 'data') event.data += (event.data ? '\n' : '') + content;
+			}
+			onEvent(event);
+		}
+	}
+}
+
+function attemptFilter(pb: PocketBase, key: AttemptKey): string {
+	return pb.filter('user_id = {:user} && paper_id = {:paper} && attempt_id = {:attempt}', {
+		user: key.user_id,
+		paper: key.paper_id,
+		attempt: key.attempt_id
+	});
+}
+
+export function createPocketBaseRepository(): ScoreRepository {
+	// One authenticated client per repository, which hooks.server.ts creates per request
+	let pb: Promise<PocketBase> | null = null;
+	const client = () => (pb ??= getPocketBaseClient(true));
+
+	// Newest first
+	function findScoreRecords(pb: PocketBase, key: AttemptKey, questionId: string) {
+		return pb.collection('scores').getFullList({
+			filter: `${attemptFilter(pb, key)} && ${pb.filter('question_id = {:question}', { question: questionId })}`,
+			sort: NEWEST_FIRST
+		});
+	}
+
+	return {
+		async getPaperScores(userId, paperId, attemptId) {
+			const pb = await client();
+			const filter =
+				attemptId === undefined
+					? pb.filter('user_id = {:user} && paper_id = {:paper}', { user: userId, paper: paperId })
+					: attemptFilter(pb, { user_id: userId, paper_id: paperId, attempt_id: attemptId });
+
+			const records = await pb.collection('scores').getFullList({ filter, sort: OLDEST_FIRST });
+			return records.map(toScore);
+		},
+
+		async getUserScores(userId) {
+			const pb = await client();
+			const records = await pb.collection('scores').getFullList({
+				filter: pb.filter('user_id = {:user}', { user: userId }),
+				sort: OLDEST_FIRST // So the most recent score wins when clients iterate
+			});
+			return records.map(toScore);
+		},
+
+		/**
+		 * Updates the current record if there is one, otherwise creates it. Any older duplicate
+		 * rows left over from before saves were upserts are deleted.
+		 */
+		async saveScore(input) {
+			const pb = await client();
+			const { updated, ...fields } = input;
+			const data = { ...fields, changed: updated ?? new Date().toISOString() };
+
+			let existing = await findScoreRecords(pb, input, input.question_id);
+
+			if (existing.length === 0) {
+				try {
+					const record = await pb.collection('scores').create(data);
+					return { record: toScore(record), created: true };
+				} catch (error) {
+					// A concurrent save may have created the row first (rejected by the unique index)
+					existing = await findScoreRecords(pb, input, input.question_id);
+					if (existing.length === 0) throw error;
+				}
+			}
+
+			const [current, ...duplicates] = existing;
+
+			// A newer mark is already stored
+			if (toScore(current).updated > data.changed) {
+				return { record: toScore(current), created: false };
+			}
+
+			const record = await pb.collection('scores').update(current.id, data);
+
+			for (const duplicate of duplicates) {
+				await pb.collection('scores').delete(duplicate.id);
+			}
+
+			return { record: toScore(record), created: false };
+		},
+
+		/**
+		 * Uses a PocketBase batch request, which runs as one transaction.
+		 */
+		async savePaperScores(key, scores) {
+			const pb = await client();
+			const existing = await pb.collection('scores').getFullList({
+				filter: attemptFilter(pb, key),
+				sort: NEWEST_FIRST
+			});
+
+			const batch = pb.createBatch();
+
+			// Newest record per question, any older duplicates get cleaned up
+			const current = new Map<string, RecordModel>();
+			for (const record of existing) {
+				if (current.has(record.question_id)) {
+					batch.collection('scores').delete(record.id);
+				} else {
+					current.set(record.question_id, record);
+				}
+			}
+
+			const changed = new Date().toISOString();
+			for (const { question_id, score } of scores) {
+				const data = { ...key, question_id, score, changed };
+				const record = current.get(question_id);
+
+				if (record) {
+					batch.collection('scores').update(record.id, data);
+				} else {
+					batch.collection('scores').create(data);
+				}
+			}
+
+			if (scores.length > 0 || existing.length > current.size) {
+				await batch.send();
+			}
+
+			return scores.length;
+		},
+
+		async deleteScore(key, questionId, updated) {
+			const pb = await client();
+			const existing = (await findScoreRecords(pb, key, questionId)).filter(
+				(record) => updated === undefined || toScore(record).updated <= updated
+			);
+
+			// Older clients could leave duplicates behind, so clear them all
+			if (existing.length > 0) {
+				const batch = pb.createBatch();
+				for (const record of existing) {
+					batch.collection('scores').delete(record.id);
+				}
+				await batch.send();
+			}
+
+			return existing.length > 0;
+		},
+
+		async deletePaperScores(key) {
+			const pb = await client();
+			const existing = await pb.collection('scores').getFullList({
+				filter: attemptFilter(pb, key)
+			});
+
+			if (existing.length > 0) {
+				const batch = pb.createBatch();
+				for (const record of existing) {
+					batch.collection('scores').delete(record.id);
+				}
+				await batch.send();
+			}
+
+			return existing.length;
+		},
+
+		async listAttempts(userId, paperId) {
+			const pb = await client();
+			const filter = paperId
+				? pb.filter('user_id = {:user} && paper_id = {:paper}', { user: userId, paper: paperId })
+				: pb.filter('user_id = {:user}', { user: userId });
+
+			const records = await pb.collection('attempts').getFullList({ filter, sort: 'started' });
+			return records.map(toAttempt);
+		},
+
+		async startAttempt(userId, paperId, options = {}) {
+			const pb = await client();
+			const record = await pb.collection('attempts').create({
+				user_id: userId,
+				paper_id: paperId,
+				started: new Date().toISOString(),
+				time_limit_seconds: options.timeLimitSeconds ?? null
+			});
+			return toAttempt(record);
+		},
+
+		async finishAttempt(userId, attemptId, elapsedSeconds) {
+			const pb = await client();
+			const [existing] = await pb.collection('attempts').getFullList({
+				filter: pb.filter('id = {:id} && user_id = {:user}', { id: attemptId, user: userId })
+			});
+			if (!existing) return null;
+
+			const record = await pb
+				.collection('attempts')
+				.update(existing.id, { elapsed_seconds: elapsedSeconds });
+			return toAttempt(record);
+		},
+
+		async listReviews(userId) {
+			const pb = await client();
+			const records = await pb.collection('reviews').getFullList({
+				filter: pb.filter('user_id = {:user}', { user: userId })
+			});
+			return records.map(toReview);
+		},
+
+		async saveReview(userId, item, update) {
+			const pb = await client();
+			const data = { user_id: userId, item, ...update, updated: new Date().toISOString() };
+
+			const [existing] = await pb.collection('reviews').getFullList({
+				filter: pb.filter('user_id = {:user} && item = {:item}', { user: userId, item })
+			});
+
+			const record = existing
+				? await pb.collection('reviews').update(existing.id, data)
+				: await pb.collection('reviews').create(data);
+			return toReview(record);
+		},
+
+		async reassignUser(fromUserId, toUserId) {
+			const pb = await client();
+
+			const legacyAttempts = await pb.collection('attempts').getFullList({
+				filter: pb.filter('user_id = {:user}', { user: fromUserId })
+			});
+			for (const attempt of legacyAttempts) {
+				await pb.collection('attempts').update(attempt.id, { user_id: toUserId });
+			}
+
+			const [legacyScores, userScores] = await Promise.all([
+				pb.collection('scores').getFullList({
+					filter: pb.filter('user_id = {:user}', { user: fromUserId })
+				}),
+				pb.collection('scores').getFullList({
+					filter: pb.filter('user_id = {:user}', { user: toUserId }),
+					requestKey: null
+				})
+			]);
+
+			const scoreKey = (record: RecordModel) =>
+				`${record.paper_id}|${record.question_id}|${record.attempt_id ?? ''}`;
+			const existingScores = new Map(userScores.map((record) => [scoreKey(record), record]));
+
+			for (const score of legacyScores) {
+				const existing = existingScores.get(scoreKey(score));
+
+				if (existing && toScore(existing).updated >= toScore(score).updated) {
+					await pb.collection('scores').delete(score.id);
+					continue;
+				}
+
+				if (existing) {
+					await pb.collection('scores').delete(existing.id);
+				}
+				await pb.collection('scores').update(score.id, { user_id: toUserId });
+			}
+
+			return { scores: legacyScores.length, attempts: legacyAttempts.length };
+		},
+
+		/**
+		 * Subscribes to the `scores` collection through PocketBase's realtime API, using the
+		 * server's own credentials. The SDK's subscribe() needs EventSource, which Workers don't
+		 * have, so the event stream is read with fetch instead.
+		 */
+		async watchScores(userId, listener, signal) {
+			const pb = await client();
+			const config = getPocketBaseConfig();
+			const headers: Record<string, string> = {};
+			if (config.cfAccess) {
+				headers['CF-Access-Client-Id'] = config.cfAccess.clientId;
+				headers['CF-Access-Client-Secret'] = config.cfAccess.clientSecret;
+			}
+
+			const response = await fetch(pb.buildURL('/api/realtime'), {
+				headers: { ...headers, Accept: 'text/event-stream' },
+				signal
+			});
+			if (!response.ok || !response.body) {
+				throw new Error(`PocketBase realtime connection failed with status ${response.status}`);
+			}
+
+			const filter = pb.filter('user_id = {:user}', { user: userId });
+			const topic = `scores/*?options=${encodeURIComponent(JSON.stringify({ query: { filter } }))}`;
+
+			try {
+				await readEventStream(response.body, (event) => {
+					if (event.event === 'PB_CONNECT') {
+						// Subscriptions are tied to the connection's client id
+						const { clientId } = JSON.parse(event.data);
+						fetch(pb.buildURL('/api/realtime'), {
+							method: 'POST',
+							headers: {
+								...headers,
+								'Content-Type': 'application/json',
+								Authorization: pb.authStore.token
+							},
+							body: JSON.stringify({ clientId, subscriptions: [topic] }),
+							signal
+						}).catch((error) => console.error('Failed to subscribe to scores:', error));
+						return;
+					}
+
+					if (event.event === topic) {
+						const { action, record } = JSON.parse(event.data);
+						// The filter should already exclude other users, but never pass them on
+						if (record.user_id !== userId) return;
+						listener({
+							action: action === 'delete' ? 'delete' : 'update',
+							record: toScore(record)
+						});
+					}
+				});
+			} catch (error) {
+				if (!signal.aborted) throw error;
+			}
+		}
+	};
+}
@@ -0,0 +1,138 @@
+import type { MistakeId } from '../mistakes';
+
+/**
+ * Storage for scores, attempts and revision reviews. The API routes only talk to this interface, so the app
+ * can run against PocketBase, an in-memory store, or a local SQLite/D1 database.
+ */
+
+export interface ScoreRecord {
+	id: string;
+	user_id: string;
+	paper_id: string;
+	question_id: string;
+	// An attempt id, or '' for scores saved before attempts existed
+	attempt_id: string;
+	score: number;
+	// Written when checking the paper against the mark scheme, '' if not given
+	note: string;
+	// Why marks were lost, '' if not given
+	mistake: MistakeId | '';
+	updated: string;
+}
+
+export interface AttemptRecord {
+	id: string;
+	user_id: string;
+	paper_id: string;
+	started: string;
+	// Set for timed attempts: how long was allowed, and how long it took once finished
+	time_limit_seconds: number | null;
+	elapsed_seconds: number | null;
+}
+
+// What a user has done with one item in their revision plan (see src/lib/planner.ts)
+export interface ReviewRecord {
+	id: string;
+	user_id: string;
+	// 'paper:<paper id>' or 'question:<paper id>:<question id>'
+	item: string;
+	// How many times the item has been marked done
+	reviews: number;
+	reviewed: string | null;
+	snoozed_until: string | null;
+	updated: string;
+}
+
+export type ReviewUpdate = Pick<ReviewRecord, 'reviews' | 'reviewed' | 'snoozed_until'>;
+
+// Identifies one attempt on a paper by one user
+export interface AttemptKey {
+	user_id: string;
+	paper_id: string;
+	attempt_id: string;
+}
+
+export interface ScoreInput extends AttemptKey {
+	question_id: string;
+	score: number;
+	// Left as they are if omitted, or '' if the score is new
+	note?: string;
+	mistake?: MistakeId | '';
+	// When the mark was made, now if omitted. Saves older than the stored score are ignored
+	updated?: string;
+}
+
+// A change to one of a user's scores, as reported by `watchScores`
+export interface ScoreChange {
+	action: 'update' | 'delete';
+	record: ScoreRecord;
+}
+
+export interface ScoreRepository {
+	/** A user's scores on one paper, oldest first. Optionally limited to one attempt. */
+	getPaperScores(userId: string, paperId: string, attemptId?: string): Promise<ScoreRecord[]>;
+
+	/** All of a user's scores across every paper, oldest first. */
+	getUserScores(userId: string): Promise<ScoreRecord[]>;
+
+	/**
+	 * Saves one score, updating the existing record for that question and attempt if there is one.
+	 * The latest mark wins: if the stored score was updated after `input.updated`, it is kept
+	 * and returned instead.
+	 */
+	saveScore(input: ScoreInput): Promise<{ record: ScoreRecord; created: boolean }>;
+
+	/** Saves several scores for one attempt atomically. Returns the number saved. */
+	savePaperScores(
+		key: AttemptKey,
+		scores: Array<{ question_id: string; score: number }>
+	): Promise<number>;
+
+	/**
+	 * Deletes one question's score in an attempt. Returns whether there was one to delete. With
+	 * `updated`, a score saved after that time is newer than the delete and is kept.
+	 */
+	deleteScore(key: AttemptKey, questionId: string, updated?: string): Promise<boolean>;
+
+	/** Deletes every score in one attempt. Returns the number deleted. */
+	deletePaperScores(key: AttemptKey): Promise<number>;
+
+	/** A user's attempts, oldest first. Optionally limited to one paper. */
+	listAttempts(userId: string, paperId?: string): Promise<AttemptRecord[]>;
+
+	/** Starts a new attempt, timed if a time limit is given. */
+	startAttempt(
+		userId: string,
+		paperId: string,
+		options?: { timeLimitSeconds?: number }
+	): Promise<AttemptRecord>;
+
+	/** Records how long one of the user's attempts took. Returns `null` if it doesn't exist. */
+	finishAttempt(
+		userId: string,
+		attemptId: string,
+		elapsedSeconds: number
+	): Promise<AttemptRecord | null>;
+
+	/** A user's revision plan reviews, in no particular order. */
+	listReviews(userId: string): Promise<ReviewRecord[]>;
+
+	/** Saves a review, updating the existing record for that item if there is one. */
+	saveReview(userId: string, item: string, update: ReviewUpdate): Promise<ReviewRecord>;
+
+	/**
+	 * Moves every score and attempt from one user id to another. Where both have a score for
+	 * the same question in the same attempt, the more recently updated one is kept.
+	 */
+	reassignUser(fromUserId: string, toUserId: string): Promise<{ scores: number; attempts: number }>;
+
+	/**
+	 * Calls `listener` with every change to the user's scores until `signal` is aborted or the
+	 * store's connection ends, then resolves. Missing for stores that can't report changes.
+	 */
+	watchScores?(
+		userId: string,
+		listener: (change: ScoreChange) => void,
+		signal: AbortSignal
+	): Promise<void>;
+}
@@ -0,0 +1,245 @@
+import { invalidateAll } from '$app/navigation';
+import {
+	listChanges,
+	queueChange,
+	removeChange,
+	type MarkChange,
+	type QueuedChange
+} from './offlineQueue';
+
+/**
+ * Uploads the signed-in user's queued mark changes (see offlineQueue.ts), in order.
+ *
+ * Marks are queued on the device first, so nothing is lost if the connection drops. The
+ * queue is sent whenever a change is made, when the browser comes back online, and on a
+ * retry timer that backs off while the server can't be reached. A change the server
+ * rejects outright, such as a score above the question's marks, is dropped and reported
+ * rather than retried forever.
+ */
+
+const FIRST_RETRY_SECONDS = 5;
+const MAX_RETRY_SECONDS = 5 * 60;
+
+interface SyncState {
+	// Changes that haven't reached the server yet, oldest first
+	pending: QueuedChange[];
+	syncing: boolean;
+	online: boolean;
+	// Why the last upload failed, if it did
+	error: string | null;
+}
+
+export const scoreSync = $state<SyncState>({
+	pending: [],
+	syncing: false,
+	online: true,
+	error: null
+});
+
+// Failures worth trying again later: no connection, or the server being unavailable
+class RetryableSyncError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'RetryableSyncError';
+	}
+}
+
+let userId: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retrySeconds = FIRST_RETRY_SECONDS;
+// Set when a change is queued during an upload that may already have listed the queue
+let syncAgain = false;
+
+function send(change: QueuedChange): Promise<Response> {
+	const headers = { 'Content-Type': 'application/json' };
+
+	switch (change.kind) {
+		case 'save':
+			return fetch('/api', {
+				method: 'POST',
+				headers,
+				body: JSON.stringify({
+					paper_id: change.paper_id,
+					question_id: change.question_id,
+					attempt_id: change.attempt_id,
+					score: change.score,
+					note: change.note,
+					mistake: change.mistake,
+					// So a mark made offline doesn't overwrite a newer one from another device
+					updated: change.queued
+				})
+			});
+		case 'delete':
+			return fetch(
+				`/api?${new URLSearchParams({
+					paper_id: change.paper_id,
+					question_id: change.question_id,
+					attempt_id: change.attempt_id,
+					updated: change.queued
+				})}`,
+				{ method: 'DELETE' }
+			);
+		case 'reset':
+			return fetch('/api/batch', {
+				method: 'POST',
+				headers,
+				body: JSON.stringify({
+					paper_id: change.paper_id,
+					attempt_id: change.attempt_id,
+					operation: 'reset'
+				})
+			});
+	}
+}
+
+async function upload(change: QueuedChange): Promise<void> {
+	let response: Response;
+	try {
+		response = await send(change);
+	} catch {
+		throw new RetryableSyncError('Could not reach the server');
+	}
+
+	if (response.ok) {
+		return;
+	}
+
+	const data = await response.json().catch(() => ({}));
+	const message = data.error || `Upload failed with status ${response.status}`;
+
+	// A signed-out session can be fixed by logging in again, so the change is kept
+	if (response.status === 401 || response.status === 429 || response.status >= 500) {
+		throw new RetryableSyncError(message);
+	}
+
+	throw new Error(message);
+}
+
+function clearRetry(): void {
+	if (retryTimer) {
+		clearTimeout(retryTimer);
+		retryTimer = null;
+	}
+}
+
+function scheduleRetry(): void {
+	clearRetry();
+	retryTimer = setTimeout(syncMarkChanges, retrySeconds * 1000);
+	retrySeconds = Math.min(retrySeconds * 2, MAX_RETRY_SECONDS);
+}
+
+/**
+ * Uploads every queued change for the signed-in user. Safe to call at any time; it does
+ * nothing while offline or while an upload is already running.
+ */
+export async function syncMarkChanges(): Promise<void> {
+	const user = userId;
+	if (!user || !navigator.onLine) {
+		return;
+	}
+
+	if (scoreSync.syncing) {
+		syncAgain = true;
+		return;
+	}
+
+	clearRetry();
+	scoreSync.syncing = true;
+	scoreSync.error = null;
+	syncAgain = false;
+	let uploaded = false;
+
+	try {
+		let changes = await listChanges(user);
+		while (changes.length > 0) {
+			for (const change of changes) {
+				try {
+					await upload(change);
+					uploaded = true;
+				} catch (error) {
+					if (error instanceof RetryableSyncError) {
+						throw error;
+					}
+					scoreSync.error = `A mark on paper ${change.paper_id} was not saved: ${
+						error instanceof Error ? error.message : 'Unknown error'
+					}`;
+				}
+				await removeChange(change.id);
+			}
+			changes = await listChanges(user);
+		}
+		retrySeconds = FIRST_RETRY_SECONDS;
+	} catch (error) {
+		scoreSync.error = error instanceof Error ? error.message : 'Failed to upload your marks';
+		scheduleRetry();
+	}
+
+	try {
+		// Reload the page's data so it includes the uploaded marks before they leave the
+		// pending list, otherwise they would briefly disappear
+		if (uploaded) {
+			await invalidateAll();
+		}
+		if (user === userId) {
+			scoreSync.pending = await listChanges(user);
+		}
+	} finally {
+		scoreSync.syncing = false;
+	}
+
+	if (syncAgain && !retryTimer) {
+		syncMarkChanges();
+	}
+}
+
+/**
+ * Saves a mark change on the device, then tries to upload it.
+ */
+export async function queueMarkChange(change: MarkChange): Promise<void> {
+	const pending = await queueChange(change);
+	if (change.user_id === userId) {
+		scoreSync.pending = pending;
+	}
+	syncMarkChanges();
+}
+
+/**
+ * Starts uploading queued changes for a user, including any left over from an earlier
+ * visit. Returns a function that stops it again.
+ */
+export function startScoreSync(user: string | null): () => void {
+	userId = user;
+	retrySeconds = FIRST_RETRY_SECONDS;
+	scoreSync.pending = [];
+	scoreSync.error = null;
+
+	if (!user) {
+		return () => {};
+	}
+
+	const updateOnline = () => {
+		scoreSync.online = navigator.onLine;
+		syncMarkChanges();
+	};
+
+	window.addEventListener('online', updateOnline);
+	window.addEventListener('offline', updateOnline);
+
+	listChanges(user)
+		.then((pending) => {
+			if (user === userId) {
+				scoreSync.pending = pending;
+			}
+			updateOnline();
+		})
+		.catch((error) => {
+			scoreSync.error = error instanceof Error ? error.message : 'Failed to load unsaved marks';
+		});
+
+	return () => {
+		window.removeEventListener('online', updateOnline);
+		window.removeEventListener('offline', updateOnline);
+		clearRetry();
+		userId = null;
+	};
+}
@@ -0,0 +1,49 @@
+import type { Paper } from './pastPapers';
+import { CatalogValidationError } from './validation';
+
+/**
+ * When a change was made, as reported by the client, so the latest mark wins even if it is
+ * uploaded later. A time in the future, from a device with its clock set wrong, is treated
+ * as now so it can't win every conflict after it.
+ */
+export function getChangeTime(updated: string | undefined): string {
+	const now = new Date();
+	return updated && new Date(updated) < now ? new Date(updated).toISOString() : now.toISOString();
+}
+
+/**
+ * Checks a score against the paper catalog: the paper must exist, the question must be on
+ * it, and the score must be between 0 and the question's marks.
+ */
+export function checkScoreAgainstCatalog(
+	paper: Paper | undefined,
+	paperId: string,
+	questionId: string,
+	score: number
+): void {
+	if (!paper) {
+		throw new CatalogValidationError(
+			'paper_not_found',
+			'paper_id',
+			`Paper ${paperId} does not exist`
+		);
+	}
+
+	const question = paper.questions.find((q) => q.id === questionId);
+	if (!question) {
+		throw new CatalogValidationError(
+			'question_not_found',
+			'question_id',
+			`Question ${questionId} is not on paper ${paperId}`
+		);
+	}
+
+	if (score < 0 || score > question.marks) {
+		throw new CatalogValidationError(
+			'score_out_of_range',
+			'score',
+			`Score for question ${questionId} must be between 0 and ${question.marks}`,
+			{ min: 0, max: question.marks }
+		);
+	}
+}
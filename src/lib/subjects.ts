@@ -0,0 +1,42 @@
+/**
+ * The subjects, exam boards and exam seasons papers can belong to. `Paper.subject`,
+ * `Paper.board` and `Paper.season` must be one of these, which the catalog linter checks.
+ */
+
+export interface Subject {
+	id: string;
+	name: string;
+}
+
+export interface ExamBoard {
+	id: string;
+	name: string;
+}
+
+export const subjects: Subject[] = [
+	{ id: 'cs', name: 'Computer Science' },
+	{ id: 'maths', name: 'Mathematics' },
+	{ id: 'physics', name: 'Physics' },
+	{ id: 'chemistry', name: 'Chemistry' },
+	{ id: 'biology', name: 'Biology' },
+	{ id: 'english', name: 'English' },
+	{ id: 'history', name: 'History' },
+	{ id: 'geography', name: 'Geography' }
+];
+
+export const examBoards: ExamBoard[] = [
+	{ id: 'ocr', name: 'OCR' },
+	{ id: 'edexcel', name: 'Edexcel' },
+	{ id: 'aqa', name: 'AQA' }
+];
+
+// Autumn covers the November resits; Sample is a board's specimen paper
+export const seasons = ['Summer', 'Autumn', 'Winter', 'Sample'];
+
+export function findSubjectName(id: string | null): string {
+	return subjects.find((s) => s.id === id)?.name ?? '';
+}
+
+export function findBoardName(id: string | null): string {
+	return examBoards.find((b) => b.id === id)?.name ?? '';
+}
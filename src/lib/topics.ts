@@ -0,0 +1,118 @@
+/**
+ * Specification topics that questions can be tagged with (`Question.topics`). The catalog
+ * linter checks tags against these lists. Marks aren't totalled per topic yet, as too few
+ * questions are tagged for the totals to mean anything.
+ *
+ * Codes follow the board's own numbering, e.g. OCR H446 "1.4.2" is Data structures. A
+ * question can list a section ("1.4") or a sub-topic ("1.4.2").
+ */
+
+export interface Topic {
+	code: string;
+	name: string;
+}
+
+export interface SubjectTopics {
+	subject: string;
+	board: string;
+	specification: string;
+	topics: Topic[];
+}
+
+export const topicCatalog: SubjectTopics[] = [
+	{
+		subject: 'cs',
+		board: 'ocr',
+		specification: 'H446',
+		topics: [
+			{ code: '1.1', name: 'The characteristics of contemporary processors' },
+			{ code: '1.1.1', name: 'Structure and function of the processor' },
+			{ code: '1.1.2', name: 'Types of processor' },
+			{ code: '1.1.3', name: 'Input, output and storage' },
+			{ code: '1.2', name: 'Software and software development' },
+			{ code: '1.2.1', name: 'Systems software' },
+			{ code: '1.2.2', name: 'Applications generation' },
+			{ code: '1.2.3', name: 'Software development' },
+			{ code: '1.2.4', name: 'Types of programming language' },
+			{ code: '1.3', name: 'Exchanging data' },
+			{ code: '1.3.1', name: 'Compression, encryption and hashing' },
+			{ code: '1.3.2', name: 'Databases' },
+			{ code: '1.3.3', name: 'Networks' },
+			{ code: '1.3.4', name: 'Web technologies' },
+			{ code: '1.4', name: 'Data types, data structures and algorithms' },
+			{ code: '1.4.1', name: 'Data types' },
+			{ code: '1.4.2', name: 'Data structures' },
+			{ code: '1.4.3', name: 'Boolean algebra' },
+			{ code: '1.5', name: 'Legal, moral, cultural and ethical issues' },
+			{ code: '1.5.1', name: 'Computing related legislation' },
+			{ code: '1.5.2', name: 'Moral and ethical issues' },
+			{ code: '2.1', name: 'Elements of computational thinking' },
+			{ code: '2.1.1', name: 'Thinking abstractly' },
+			{ code: '2.1.2', name: 'Thinking ahead' },
+			{ code: '2.1.3', name: 'Thinking procedurally' },
+			{ code: '2.1.4', name: 'Thinking logically' },
+			{ code: '2.1.5', name: 'Thinking concurrently' },
+			{ code: '2.2', name: 'Problem solving and programming' },
+			{ code: '2.2.1', name: 'Programming techniques' },
+			{ code: '2.2.2', name: 'Computational methods' },
+			{ code: '2.3', name: 'Algorithms' },
+			{ code: '2.3.1', name: 'Algorithms' }
+		]
+	},
+	{
+		subject: 'maths',
+		board: 'edexcel',
+		specification: '9MA0',
+		// The spec numbers pure, statistics and mechanics topics separately, hence the prefixes
+		topics: [
+			{ code: 'P1', name: 'Proof' },
+			{ code: 'P2', name: 'Algebra and functions' },
+			{ code: 'P3', name: 'Coordinate geometry in the (x, y) plane' },
+			{ code: 'P4', name: 'Sequences and series' },
+			{ code: 'P5', name: 'Trigonometry' },
+			{ code: 'P6', name: 'Exponentials and logarithms' },
+			{ code: 'P7', name: 'Differentiation' },
+			{ code: 'P8', name: 'Integration' },
+			{ code: 'P9', name: 'Numerical methods' },
+			{ code: 'P10', name: 'Vectors' },
+			{ code: 'S1', name: 'Statistical sampling' },
+			{ code: 'S2', name: 'Data presentation and interpretation' },
+			{ code: 'S3', name: 'Probability' },
+			{ code: 'S4', name: 'Statistical distributions' },
+			{ code: 'S5', name: 'Statistical hypothesis testing' },
+			{ code: 'M6', name: 'Quantities and units in mechanics' },
+			{ code: 'M7', name: 'Kinematics' },
+			{ code: 'M8', name: "Forces and Newton's laws" },
+			{ code: 'M9', name: 'Moments' }
+		]
+	},
+	{
+		subject: 'physics',
+		board: 'aqa',
+		specification: '7408',
+		topics: [
+			{ code: '3.1', name: 'Measurements and their errors' },
+			{ code: '3.2', name: 'Particles and radiation' },
+			{ code: '3.3', name: 'Waves' },
+			{ code: '3.4', name: 'Mechanics and materials' },
+			{ code: '3.5', name: 'Electricity' },
+			{ code: '3.6', name: 'Further mechanics and thermal physics' },
+			{ code: '3.6.1', name: 'Periodic motion' },
+			{ code: '3.6.2', name: 'Thermal physics' },
+			{ code: '3.7', name: 'Fields and their consequences' },
+			{ code: '3.8', name: 'Nuclear physics' },
+			{ code: '3.9', name: 'Astrophysics' },
+			{ code: '3.10', name: 'Medical physics' },
+			{ code: '3.11', name: 'Engineering physics' },
+			{ code: '3.12', name: 'Turning points in physics' },
+			{ code: '3.13', name: 'Electronics' }
+		]
+	}
+];
+
+/**
+ * Looks up the topics for a subject at a board, or `undefined` if none are catalogued.
+ */
+export function findSubjectTopics(subject: string, board: string): SubjectTopics | undefined {
+	return topicCatalog.find((entry) => entry.subject === subject && entry.board === board);
+}
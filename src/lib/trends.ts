@@ -0,0 +1,121 @@
+import type { Paper } from './pastPapers';
+import type { PaperHistory } from './planner';
+
+/**
+ * Score trends over time for the Performance tab charts. Every attempt with marks is one
+ * sitting, dated by when its last mark was saved, and scored on the questions marked.
+ */
+
+export interface SittingResult {
+	paper: Paper;
+	date: string;
+	gained: number;
+	available: number;
+	percentage: number;
+}
+
+export interface TrendPoint {
+	date: string;
+	label: string;
+	percentage: number;
+	// How many sittings the point averages
+	sittings: number;
+}
+
+export interface ComponentTrend {
+	// The paper name shared by every sitting, e.g. 'H446/01 Computer Systems'
+	paper: string;
+	subject: string;
+	board: string;
+	points: TrendPoint[];
+}
+
+/**
+ * Lists every sitting with any marks, oldest first.
+ */
+export function getSittingResults(histories: PaperHistory[]): SittingResult[] {
+	const results: SittingResult[] = [];
+
+	for (const { paper, attempts } of histories) {
+		for (const marks of attempts) {
+			const marked = paper.questions.filter((q) => marks[q.id] !== undefined);
+			if (marked.length === 0) continue;
+
+			const gained = marked.reduce((sum, q) => sum + marks[q.id].score, 0);
+			const available = marked.reduce((sum, q) => sum + q.marks, 0);
+			const date = marked.map((q) => marks[q.id].updated).sort()[marked.length - 1];
+
+			results.push({
+				paper,
+				date,
+				gained,
+				available,
+				percentage: available > 0 ? Math.round((gained / available) * 100) : 0
+			});
+		}
+	}
+
+	return results.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Midnight on the Monday of the week a date falls in, local time
+function startOfWeek(date: string): Date {
+	const start = new Date(date);
+	start.setHours(0, 0, 0, 0);
+	start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+	return start;
+}
+
+/**
+ * Averages the percentage of the sittings in each week, oldest week first. Weeks without
+ * any sittings are left out rather than plotted as 0.
+ */
+export function getAverageTrend(results: SittingResult[]): TrendPoint[] {
+	const weeks = new Map<string, SittingResult[]>();
+
+	for (const result of results) {
+		const week = startOfWeek(result.date).toISOString();
+		weeks.set(week, [...(weeks.get(week) ?? []), result]);
+	}
+
+	return [...weeks.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([week, sittings]) => ({
+			date: week,
+			label: `w/c ${new Date(week).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}`,
+			percentage: Math.round(sittings.reduce((sum, s) => sum + s.percentage, 0) / sittings.length),
+			sittings: sittings.length
+		}));
+}
+
+/**
+ * Groups sittings by paper component, e.g. every H446/01 paper whatever its year, with one
+ * point per sitting in the order they were done. Components with the most sittings come
+ * first.
+ */
+export function getComponentTrends(results: SittingResult[]): ComponentTrend[] {
+	const components = new Map<string, ComponentTrend>();
+
+	for (const result of results) {
+		const { paper } = result;
+		const key = `${paper.subject}-${paper.board}-${paper.paper}`;
+		const component = components.get(key) ?? {
+			paper: paper.paper,
+			subject: paper.subject,
+			board: paper.board,
+			points: []
+		};
+
+		component.points.push({
+			date: result.date,
+			label: `${paper.year} ${paper.season}`,
+			percentage: result.percentage,
+			sittings: 1
+		});
+		components.set(key, component);
+	}
+
+	return [...components.values()].sort(
+		(a, b) => b.points.length - a.points.length || a.paper.localeCompare(b.paper)
+	);
+}
@@ -55,23 +55,74 @@ export function validatePaperMarks(): {
   };
 }
 
+export interface TotalMarksChange {
+  paperId: number;
+  // 1-based line number in the original source
+  line: number;
+  // The line that was replaced, or undefined if a new totalMarks line was inserted
+  before?: string;
+  after: string;
+}
+
 /**
- * Updates all papers to ensure they have the correct totalMarks property.
- * Returns the count of papers that were updated.
+ * Rewrites the `totalMarks` of every paper whose questions add up to something else, in the
+ * source text of pastPapers.ts. Only those lines are touched, so the rest of the file keeps
+ * its formatting and comments. Papers without a `totalMarks` line get one added at the end.
+ *
+ * Returns the new source and the lines that changed; `source` is unchanged if none did.
  */
-export function updatePaperTotals(): number {
-  let updatedCount = 0;
-  
-  pastPapers.forEach((paper) => {
-    const calculatedTotal = paper.questions.reduce((sum, question) => sum + question.marks, 0);
-    
-    if (paper.totalMarks === undefined || paper.totalMarks !== calculatedTotal) {
-      (paper as Paper).totalMarks = calculatedTotal;
-      updatedCount++;
+export function rewritePaperTotals(
+  source: string,
+  papers: Paper[] = pastPapers
+): { source: string; changes: TotalMarksChange[] } {
+  const totals = new Map(
+    papers.map((paper) => [paper.id, paper.questions.reduce((sum, q) => sum + q.marks, 0)])
+  );
+  const lines = source.split('\n');
+  const output: string[] = [];
+  const changes: TotalMarksChange[] = [];
+
+  // The paper whose block we're in, found from its `id: N,` line
+  let current: { id: number; indent: string; hasTotal: boolean } | null = null;
+
+  lines.forEach((line, index) => {
+    const idMatch = line.match(/^(\s+)id: (\d+),\s*$/);
+    if (!current && idMatch && totals.has(Number(idMatch[2]))) {
+      current = { id: Number(idMatch[2]), indent: idMatch[1], hasTotal: false };
     }
+
+    if (current) {
+      const total = totals.get(current.id)!;
+      const totalMatch = line.match(/^(\s+)totalMarks: (\d+)(,?.*)$/);
+
+      if (totalMatch && totalMatch[1] === current.indent) {
+        current.hasTotal = true;
+        if (Number(totalMatch[2]) !== total) {
+          const after = `${totalMatch[1]}totalMarks: ${total}${totalMatch[3]}`;
+          changes.push({ paperId: current.id, line: index + 1, before: line, after });
+          output.push(after);
+          return;
+        }
+      }
+
+      // The paper's closing brace is indented one level less than its properties
+      if (/^\s*},?\s*$/.test(line) && line.indexOf('}') === current.indent.length - 1) {
+        if (!current.hasTotal) {
+          const after = `${current.indent}totalMarks: ${total}`;
+          if (output.length > 0 && !output[output.length - 1].trimEnd().endsWith(',')) {
+            output[output.length - 1] = `${output[output.length - 1].trimEnd()},`;
+          }
+          changes.push({ paperId: current.id, line: index + 1, after });
+          output.push(after);
+        }
+        current = null;
+      }
+    }
+
+    output.push(line);
   });
-  
-  return updatedCount;
+
+  return { source: changes.length > 0 ? output.join('\n') : source, changes };
 }
 
 // Run the validation if this script is executed directly
@@ -0,0 +1,245 @@
+import { json } from '@sveltejs/kit';
+import { PocketBaseAuthError } from './pb';
+
+/**
+ * Small request-validation layer shared by the API routes.
+ *
+ * A schema maps field names to `Field`s; `parseQuery`/`parseBody` run it against the query
+ * string or JSON body and return typed values, or throw a `ValidationError` naming the field
+ * that failed. `handleApiError` turns that into a 400 response, a `CatalogValidationError`
+ * into a 422 and a `PocketBaseAuthError` into a 503.
+ */
+
+export class ValidationError extends Error {
+	constructor(
+		public field: string,
+		message: string
+	) {
+		super(message);
+		this.name = 'ValidationError';
+	}
+}
+
+/**
+ * A request that is well-formed but doesn't make sense against the paper catalog,
+ * e.g. a score for a question that isn't on the paper. Returned as a 422.
+ */
+export class CatalogValidationError extends Error {
+	constructor(
+		public code: 'paper_not_found' | 'question_not_found' | 'score_out_of_range',
+		public field: string,
+		message: string,
+		public details: Record<string, unknown> = {}
+	) {
+		super(message);
+		this.name = 'CatalogValidationError';
+	}
+}
+
+export interface Field<T> {
+	parse(value: unknown, name: string): T;
+}
+
+export type Schema = Record<string, Field<unknown>>;
+
+export type Infer<S extends Schema> = {
+	[K in keyof S]: S[K] extends Field<infer T> ? T : never;
+};
+
+function isMissing(value: unknown): boolean {
+	return value === undefined || value === null;
+}
+
+export function string(
+	options: { maxLength?: number; pattern?: RegExp; allowEmpty?: boolean } = {}
+) {
+	const { maxLength = 255, pattern, allowEmpty = false } = options;
+
+	return {
+		parse(value: unknown, name: string): string {
+			if (isMissing(value) || (value === '' && !allowEmpty)) {
+				throw new ValidationError(name, `${name} is required`);
+			}
+			if (typeof value !== 'string') {
+				throw new ValidationError(name, `${name} must be a string`);
+			}
+			if (value.length > maxLength) {
+				throw new ValidationError(name, `${name} must be at most ${maxLength} characters`);
+			}
+			if (pattern && value !== '' && !pattern.test(value)) {
+				throw new ValidationError(name, `${name} is not in a valid format`);
+			}
+			return value;
+		}
+	} satisfies Field<string>;
+}
+
+/**
+ * An integer, given either as a number or a numeric string (query parameters are always
+ * strings, and older clients send scores as strings).
+ */
+export function integer(options: { min?: number; max?: number } = {}) {
+	return {
+		parse(value: unknown, name: string): number {
+			if (isMissing(value) || value === '') {
+				throw new ValidationError(name, `${name} is required`);
+			}
+
+			const number =
+				typeof value === 'string' && /^-?\d+$/.test(value.trim()) ? Number(value) : value;
+
+			if (typeof number !== 'number' || !Number.isInteger(number)) {
+				throw new ValidationError(name, `${name} must be a whole number`);
+			}
+			if (options.min !== undefined && number < options.min) {
+				throw new ValidationError(name, `${name} must be at least ${options.min}`);
+			}
+			if (options.max !== undefined && number > options.max) {
+				throw new ValidationError(name, `${name} must be at most ${options.max}`);
+			}
+			return number;
+		}
+	} satisfies Field<number>;
+}
+
+export function boolean() {
+	return {
+		parse(value: unknown, name: string): boolean {
+			if (isMissing(value)) {
+				throw new ValidationError(name, `${name} is required`);
+			}
+			if (typeof value !== 'boolean') {
+				throw new ValidationError(name, `${name} must be true or false`);
+			}
+			return value;
+		}
+	} satisfies Field<boolean>;
+}
+
+/**
+ * One of a fixed set of strings. With `allowEmpty`, '' is accepted too, e.g. to clear a choice.
+ */
+export function oneOf<const T extends string, E extends boolean = false>(
+	values: readonly T[],
+	options: { allowEmpty?: E } = {}
+): Field<E extends true ? T | '' : T> {
+	type Result = E extends true ? T | '' : T;
+
+	return {
+		parse(value: unknown, name: string): Result {
+			if (value === '' && options.allowEmpty) {
+				return value as Result;
+			}
+			if (isMissing(value) || value === '') {
+				throw new ValidationError(name, `${name} is required`);
+			}
+			if (!values.includes(value as T)) {
+				throw new ValidationError(name, `${name} must be one of: ${values.join(', ')}`);
+			}
+			return value as Result;
+		}
+	};
+}
+
+/**
+ * An array of objects, each validated against `schema`. Errors name the failing item,
+ * e.g. `scores[2].score`.
+ */
+export function arrayOf<S extends Schema>(schema: S, options: { maxItems?: number } = {}) {
+	const { maxItems = 500 } = options;
+
+	return {
+		parse(value: unknown, name: string): Infer<S>[] {
+			if (isMissing(value)) {
+				throw new ValidationError(name, `${name} is required`);
+			}
+			if (!Array.isArray(value)) {
+				throw new ValidationError(name, `${name} must be an array`);
+			}
+			if (value.length > maxItems) {
+				throw new ValidationError(name, `${name} must have at most ${maxItems} items`);
+			}
+
+			return value.map((item, index) => {
+				const itemName = `${name}[${index}]`;
+				if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+					throw new ValidationError(itemName, `${itemName} must be an object`);
+				}
+				const result: Record<string, unknown> = {};
+				for (const [field, fieldSchema] of Object.entries(schema)) {
+					result[field] = fieldSchema.parse(item[field], `${itemName}.${field}`);
+				}
+				return result as Infer<S>;
+			});
+		}
+	} satisfies Field<Infer<S>[]>;
+}
+
+export function optional<T>(field: Field<T>): Field<T | undefined> {
+	return {
+		parse(value: unknown, name: string): T | undefined {
+			return isMissing(value) ? undefined : field.parse(value, name);
+		}
+	};
+}
+
+// Reusable fields for values that appear in several endpoints
+export const paperIdField = string({ maxLength: 20, pattern: /^\d+$/ });
+export const questionIdField = string({ maxLength: 20 });
+// An attempt id, or '' for scores saved before attempts existed
+export const attemptIdField = string({ maxLength: 15, pattern: /^[a-z0-9]+$/, allowEmpty: true });
+// An ISO 8601 UTC timestamp, as produced by Date.toISOString()
+export const timestampField = string({
+	maxLength: 30,
+	pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+});
+
+export function validate<S extends Schema>(input: Record<string, unknown>, schema: S): Infer<S> {
+	const result: Record<string, unknown> = {};
+	for (const [name, field] of Object.entries(schema)) {
+		result[name] = field.parse(input[name], name);
+	}
+	return result as Infer<S>;
+}
+
+export function parseQuery<S extends Schema>(url: URL, schema: S): Infer<S> {
+	return validate(Object.fromEntries(url.searchParams), schema);
+}
+
+export async function parseBody<S extends Schema>(request: Request, schema: S): Promise<Infer<S>> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		throw new ValidationError('body', 'Request body must be valid JSON');
+	}
+
+	if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+		throw new ValidationError('body', 'Request body must be a JSON object');
+	}
+
+	return validate(body as Record<string, unknown>, schema);
+}
+
+/**
+ * Converts an error thrown while handling an API request into a JSON response.
+ */
+export function handleApiError(error: unknown): Response {
+	if (error instanceof ValidationError) {
+		return json({ error: error.message, field: error.field }, { status: 400 });
+	}
+	if (error instanceof CatalogValidationError) {
+		return json(
+			{ error: error.message, code: error.code, field: error.field, details: error.details },
+			{ status: 422 }
+		);
+	}
+	if (error instanceof PocketBaseAuthError) {
+		console.error(error.message, error.cause);
+		return json({ error: 'The score database is unavailable, try again later' }, { status: 503 });
+	}
+	if (error instanceof Error) {
+		return json({ error: error.message }, { status: 500 });
+	}
+	return json({ error: 'An unknown error occurred' }, { status: 500 });
+}
@@ -0,0 +1,28 @@
+import { loadPapers } from '$lib/catalog';
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ params, locals }) => {
+	const papers = await loadPapers();
+	const paper = /^\d+$/.test(params.id)
+		? papers.find((p) => p.id === parseInt(params.id))
+		: undefined;
+
+	if (!paper) {
+		error(404, `Paper ${params.id} does not exist`);
+	}
+
+	// The rest of the board's papers for the subject, for the sidebar
+	const siblings = papers.filter((p) => p.board === paper.board && p.subject === paper.subject);
+
+	if (!locals.user) {
+		return { paper, papers: siblings, attempts: [], scores: [] };
+	}
+
+	const [attempts, scores] = await Promise.all([
+		locals.scores.listAttempts(locals.user.id, params.id),
+		locals.scores.getPaperScores(locals.user.id, params.id)
+	]);
+
+	return { paper, papers: siblings, attempts, scores };
+};
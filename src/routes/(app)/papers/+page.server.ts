@@ -0,0 +1,11 @@
+import { subjects } from '$lib/subjects';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ url }) => {
+	const subject = url.searchParams.get('subject');
+
+	return {
+		// Ignore subjects that don't exist rather than failing the whole page
+		subject: subjects.some((s) => s.id === subject) ? subject : null
+	};
+};
@@ -0,0 +1,20 @@
+import { loadPapers } from '$lib/catalog';
+import { examBoards, subjects } from '$lib/subjects';
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ params }) => {
+	const { board, subject } = params;
+
+	if (!examBoards.some((b) => b.id === board) || !subjects.some((s) => s.id === subject)) {
+		error(404, 'No such subject or exam board');
+	}
+
+	const papers = await loadPapers();
+
+	return {
+		board,
+		subject,
+		papers: papers.filter((paper) => paper.board === board && paper.subject === subject)
+	};
+};
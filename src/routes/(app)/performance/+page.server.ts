@@ -0,0 +1,17 @@
+import { loadPapers } from '$lib/catalog';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ locals }) => {
+	const papers = await loadPapers();
+
+	if (!locals.user) {
+		return { papers, attempts: [], scores: [] };
+	}
+
+	const [attempts, scores] = await Promise.all([
+		locals.scores.listAttempts(locals.user.id),
+		locals.scores.getUserScores(locals.user.id)
+	]);
+
+	return { papers, attempts, scores };
+};
@@ -0,0 +1,34 @@
+import { redirect } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+
+const PAGES = ['planner', 'performance', 'settings'];
+
+// Everything used to live on this one page, driven by query parameters. Links saved from
+// then are sent to the page that now shows the same thing
+export async function GET({ url }: RequestEvent) {
+	const params = url.searchParams;
+	const paper = params.get('paper');
+	const tab = params.get('tab');
+	const subject = params.get('subject');
+	const board = params.get('board');
+
+	if (paper && /^\d+$/.test(paper)) {
+		redirect(308, `/paper/${paper}`);
+	}
+
+	if (tab && PAGES.includes(tab)) {
+		redirect(308, `/${tab}`);
+	}
+
+	if (subject && board) {
+		const query = params.get('q');
+		const search = query ? `?${new URLSearchParams({ q: query })}` : '';
+		redirect(308, `/papers/${encodeURIComponent(board)}/${encodeURIComponent(subject)}${search}`);
+	}
+
+	if (subject) {
+		redirect(308, `/papers?${new URLSearchParams({ subject })}`);
+	}
+
+	redirect(307, '/papers');
+}
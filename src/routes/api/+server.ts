@@ -1,63 +1,157 @@
-import { getPocketBaseClient } from '$lib/pb';
+import { findPaper } from '$lib/catalog';
+import { checkScoreAgainstCatalog, getChangeTime } from '$lib/scores';
+import { getCurrentAttemptId } from '$lib/attempts';
+import { mistakeIds } from '$lib/mistakes';
+import {
+	attemptIdField,
+	handleApiError,
+	integer,
+	oneOf,
+	optional,
+	paperIdField,
+	parseBody,
+	parseQuery,
+	questionIdField,
+	string,
+	timestampField
+} from '$lib/validation';
 import { json } from '@sveltejs/kit';
 import type { RequestEvent } from '@sveltejs/kit';
 
-export async function GET({ url }: RequestEvent) {
-	const userId = url.searchParams.get('user_id');
-	const paperId = url.searchParams.get('paper_id');
+const getScoresQuery = {
+	paper_id: paperIdField,
+	attempt_id: optional(attemptIdField)
+};
 
-	if (!userId || !paperId) {
-		return json({ error: 'Missing required parameters' }, { status: 400 });
+const saveScoreBody = {
+	paper_id: paperIdField,
+	question_id: questionIdField,
+	score: integer({ min: 0 }),
+	attempt_id: optional(attemptIdField),
+	note: optional(string({ maxLength: 2000, allowEmpty: true })),
+	mistake: optional(oneOf(mistakeIds, { allowEmpty: true })),
+	updated: optional(timestampField)
+};
+
+const deleteScoreQuery = {
+	paper_id: paperIdField,
+	question_id: questionIdField,
+	attempt_id: optional(attemptIdField),
+	updated: optional(timestampField)
+};
+
+/**
+ * GET endpoint to retrieve the signed-in user's scores for one paper
+ *
+ * Required query parameter:
+ * - paper_id: The ID of the paper
+ *
+ * Optional query parameter:
+ * - attempt_id: Only return scores from this attempt
+ *
+ * @returns JSON response with the user's attempts on the paper and their scores
+ */
+export async function GET({ url, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
 	}
 
+	const userId = locals.user.id;
+
 	try {
-		// Create a new PocketBase instance for this request
-		const pb = await getPocketBaseClient(true);
-		
-		// Fetch data using the new PocketBase instance
-		const data = await pb.collection('scores').getFullList({
-			filter: `user_id="${userId}" && paper_id="${paperId}"`
-		});
+		const { paper_id, attempt_id } = parseQuery(url, getScoresQuery);
 
-		console.log('Fetched data:', data); // Debugging line
+		const [attempts, scores] = await Promise.all([
+			locals.scores.listAttempts(userId, paper_id),
+			locals.scores.getPaperScores(userId, paper_id, attempt_id)
+		]);
 
-		return json(data);
+		return json({ attempts, scores });
 	} catch (error) {
-		if (error instanceof Error) {
-			return json({ error: error.message }, { status: 500 });
-		}
-		return json({ error: 'An unknown error occurred' }, { status: 500 });
+		return handleApiError(error);
 	}
 }
 
-export async function POST({ request }: RequestEvent) {
+/**
+ * POST endpoint to save a score for one question
+ *
+ * Body: { paper_id, question_id, score, attempt_id?, note?, mistake?, updated? }
+ * If attempt_id is omitted the score is saved to the paper's current attempt.
+ * note and mistake (careless, misread, knowledge, time or technique) record why marks
+ * were lost; '' clears them, and leaving them out keeps the saved ones.
+ * updated is when the mark was changed, now if omitted; an older change than the stored
+ * one is ignored and the stored score returned.
+ * Scores that don't fit the paper catalog are rejected with a 422.
+ */
+export async function POST({ request, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	const user_id = locals.user.id;
+
 	try {
-		// Get data from request body
-		const body = await request.json();
-		
-		// Validate required fields
-		const { user_id, question_id, score, paper_id } = body;
-		if (!user_id || !paper_id || !score) {
-			return json({ error: 'Missing required fields: user_id, paper_id, and score are required' }, { status: 400 });
-		}
-		
-		// Create a new PocketBase instance for this request
-		const pb = await getPocketBaseClient();
-		
-		// Create record in PocketBase
-		const data = await pb.collection('scores').create({
+		const { paper_id, question_id, score, attempt_id, note, mistake, updated } = await parseBody(
+			request,
+			saveScoreBody
+		);
+
+		// Reject scores for questions that don't exist or more marks than the question is worth
+		checkScoreAgainstCatalog(await findPaper(parseInt(paper_id)), paper_id, question_id, score);
+
+		// Update the existing score for this question, or create it if there isn't one
+		const { record, created } = await locals.scores.saveScore({
 			user_id,
+			paper_id,
 			question_id,
+			attempt_id: attempt_id ?? (await getCurrentAttemptId(locals.scores, user_id, paper_id)),
 			score,
-			paper_id,
-			updated: new Date().toISOString()
+			note,
+			mistake,
+			updated: getChangeTime(updated)
 		});
-		
-		return json(data, { status: 201 });
+
+		return json(record, { status: created ? 201 : 200 });
+	} catch (error) {
+		return handleApiError(error);
+	}
+}
+
+/**
+ * DELETE endpoint to clear the score for one question, marking it as not attempted again
+ *
+ * Required query parameters:
+ * - paper_id: The ID of the paper
+ * - question_id: The question to clear
+ *
+ * Optional query parameters:
+ * - attempt_id: The attempt to clear it in, the paper's current attempt if omitted
+ * - updated: When the score was cleared; a score changed after that is kept
+ *
+ * @returns JSON response with whether there was a score to delete
+ */
+export async function DELETE({ url, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	const user_id = locals.user.id;
+
+	try {
+		const { paper_id, question_id, attempt_id, updated } = parseQuery(url, deleteScoreQuery);
+
+		const deleted = await locals.scores.deleteScore(
+			{
+				user_id,
+				paper_id,
+				attempt_id: attempt_id ?? (await getCurrentAttemptId(locals.scores, user_id, paper_id))
+			},
+			question_id,
+			getChangeTime(updated)
+		);
+
+		return json({ deleted });
 	} catch (error) {
-		if (error instanceof Error) {
-			return json({ error: error.message }, { status: 500 });
-		}
-		return json({ error: 'An unknown error occurred' }, { status: 500 });
+		return handleApiError(error);
 	}
 }
@@ -0,0 +1,114 @@
+import { findPaper } from '$lib/catalog';
+import {
+	attemptIdField,
+	boolean,
+	CatalogValidationError,
+	handleApiError,
+	integer,
+	optional,
+	paperIdField,
+	parseBody,
+	parseQuery,
+	ValidationError
+} from '$lib/validation';
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+
+const startAttemptBody = {
+	paper_id: paperIdField,
+	timed: optional(boolean())
+};
+
+const finishAttemptBody = {
+	attempt_id: attemptIdField,
+	// Up to a day, far longer than any exam
+	elapsed_seconds: integer({ min: 0, max: 24 * 60 * 60 })
+};
+
+/**
+ * GET endpoint to list the signed-in user's attempts on a paper, oldest first
+ *
+ * Required query parameter:
+ * - paper_id: The ID of the paper
+ */
+export async function GET({ url, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	try {
+		const { paper_id } = parseQuery(url, { paper_id: paperIdField });
+
+		return json(await locals.scores.listAttempts(locals.user.id, paper_id));
+	} catch (error) {
+		return handleApiError(error);
+	}
+}
+
+/**
+ * POST endpoint to start a new attempt on a paper
+ *
+ * Body: { paper_id, timed? }
+ * A timed attempt gets the paper's duration from the catalog as its time limit.
+ *
+ * @returns The new attempt, which becomes the paper's current attempt
+ */
+export async function POST({ request, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	try {
+		const { paper_id, timed } = await parseBody(request, startAttemptBody);
+
+		let timeLimitSeconds: number | undefined;
+		if (timed) {
+			const paper = await findPaper(parseInt(paper_id));
+			if (!paper) {
+				throw new CatalogValidationError(
+					'paper_not_found',
+					'paper_id',
+					`Paper ${paper_id} does not exist`
+				);
+			}
+			if (!paper.durationMinutes) {
+				throw new ValidationError('timed', `Paper ${paper_id} has no duration to time`);
+			}
+			timeLimitSeconds = paper.durationMinutes * 60;
+		}
+
+		const attempt = await locals.scores.startAttempt(locals.user.id, paper_id, {
+			timeLimitSeconds
+		});
+
+		return json(attempt, { status: 201 });
+	} catch (error) {
+		return handleApiError(error);
+	}
+}
+
+/**
+ * PATCH endpoint to record how long an attempt took, when a timed attempt is finished
+ *
+ * Body: { attempt_id, elapsed_seconds }
+ *
+ * @returns The updated attempt
+ */
+export async function PATCH({ request, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	try {
+		const { attempt_id, elapsed_seconds } = await parseBody(request, finishAttemptBody);
+
+		const attempt = await locals.scores.finishAttempt(locals.user.id, attempt_id, elapsed_seconds);
+		if (!attempt) {
+			return json({ error: `Attempt ${attempt_id} not found` }, { status: 404 });
+		}
+
+		return json(attempt);
+	} catch (error) {
+		return handleApiError(error);
+	}
+}
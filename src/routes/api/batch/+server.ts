@@ -0,0 +1,85 @@
+import { findPaper } from '$lib/catalog';
+import { getCurrentAttemptId } from '$lib/attempts';
+import { checkScoreAgainstCatalog } from '$lib/scores';
+import {
+	arrayOf,
+	attemptIdField,
+	handleApiError,
+	integer,
+	oneOf,
+	optional,
+	paperIdField,
+	parseBody,
+	questionIdField,
+	ValidationError
+} from '$lib/validation';
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+
+const batchBody = {
+	paper_id: paperIdField,
+	attempt_id: optional(attemptIdField),
+	operation: oneOf(['save', 'reset']),
+	scores: optional(
+		arrayOf({ question_id: questionIdField, score: integer({ min: 0 }) }, { maxItems: 200 })
+	)
+};
+
+/**
+ * POST endpoint to save or reset a whole paper attempt at once
+ *
+ * Body:
+ * - { paper_id, attempt_id?, operation: 'save', scores: [{ question_id, score }] }
+ *   Saves every listed score.
+ * - { paper_id, attempt_id?, operation: 'reset' }
+ *   Deletes all of the attempt's scores, leaving every question unmarked.
+ *
+ * If attempt_id is omitted the paper's current attempt is used. The operation is applied
+ * atomically: if any score is invalid or the write fails, nothing is changed.
+ *
+ * @returns JSON response with the number of scores saved and deleted
+ */
+export async function POST({ request, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	const user_id = locals.user.id;
+
+	try {
+		const { paper_id, attempt_id, operation, scores } = await parseBody(request, batchBody);
+
+		if (operation === 'save') {
+			if (!scores) {
+				throw new ValidationError('scores', 'scores is required for the save operation');
+			}
+
+			const seen = new Set<string>();
+			const paper = await findPaper(parseInt(paper_id));
+			for (const [index, { question_id, score }] of scores.entries()) {
+				if (seen.has(question_id)) {
+					throw new ValidationError(
+						`scores[${index}].question_id`,
+						`Question ${question_id} appears more than once`
+					);
+				}
+				seen.add(question_id);
+				checkScoreAgainstCatalog(paper, paper_id, question_id, score);
+			}
+		}
+
+		const key = {
+			user_id,
+			paper_id,
+			attempt_id: attempt_id ?? (await getCurrentAttemptId(locals.scores, user_id, paper_id))
+		};
+
+		if (operation === 'reset') {
+			return json({ saved: 0, deleted: await locals.scores.deletePaperScores(key) });
+		}
+
+		return json({ saved: await locals.scores.savePaperScores(key, scores ?? []), deleted: 0 });
+	} catch (error) {
+		return handleApiError(error);
+	}
+}
@@ -0,0 +1,61 @@
+import { getPocketBaseClient, getPocketBaseConfig } from '$lib/pb';
+import type PocketBase from 'pocketbase';
+import { ClientResponseError } from 'pocketbase';
+import { handleApiError, parseBody, string } from '$lib/validation';
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+
+// Whether an id belongs to an account. Only a superuser sees every user, so only its 404 can
+// be trusted to mean there is no such account; anything else fails rather than guessing
+async function isAccount(pb: PocketBase, id: string): Promise<boolean> {
+	try {
+		await pb.collection('users').getOne(id);
+		return true;
+	} catch (error) {
+		if (error instanceof ClientResponseError && error.status === 404) {
+			return false;
+		}
+		throw error;
+	}
+}
+
+/**
+ * POST endpoint to move scores saved under an old free-text User ID to the signed-in account
+ *
+ * Body: { legacy_user_id }
+ *
+ * Needs PB_AUTH_MODE=superuser, as the server must be able to check that the ID isn't
+ * another account's; otherwise it returns a 503.
+ *
+ * @returns JSON response with the number of scores and attempts that were moved
+ */
+export async function POST({ request, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	try {
+		const { legacy_user_id } = await parseBody(request, { legacy_user_id: string() });
+
+		if (getPocketBaseConfig().authMode !== 'superuser') {
+			return json(
+				{ error: 'Importing a User ID needs the server to sign in to PocketBase as a superuser' },
+				{ status: 503 }
+			);
+		}
+
+		const pb = await getPocketBaseClient(true);
+
+		// Account ids live in the same user_id field, so never let one be claimed as a legacy ID
+		if (legacy_user_id === locals.user.id || (await isAccount(pb, legacy_user_id))) {
+			return json({ error: 'That is not a legacy User ID' }, { status: 400 });
+		}
+
+		const moved = await locals.scores.reassignUser(legacy_user_id, locals.user.id);
+
+		return json(moved);
+	} catch (error) {
+		console.error('Error migrating legacy user ID:', error);
+		return handleApiError(error);
+	}
+}
@@ -0,0 +1,30 @@
+import { findPaper, loadPapers } from '$lib/catalog';
+import { handleApiError, integer, optional, parseQuery } from '$lib/validation';
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+
+/**
+ * GET endpoint for the paper catalog
+ *
+ * Optional query parameter:
+ * - paper_id: Only return the paper with this ID
+ *
+ * @returns JSON response with an array of papers, or a single paper if paper_id is given
+ */
+export async function GET({ url }: RequestEvent) {
+	try {
+		const { paper_id } = parseQuery(url, { paper_id: optional(integer({ min: 1 })) });
+
+		if (paper_id !== undefined) {
+			const paper = await findPaper(paper_id);
+			if (!paper) {
+				return json({ error: `Paper ${paper_id} not found` }, { status: 404 });
+			}
+			return json(paper);
+		}
+
+		return json(await loadPapers());
+	} catch (error) {
+		return handleApiError(error);
+	}
+}
@@ -0,0 +1,78 @@
+import type { ScoreChange } from '$lib/repositories';
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+
+// Sent as a comment so proxies don't close an idle connection
+const HEARTBEAT_INTERVAL_MS = 25_000;
+// How long the browser waits before reconnecting after the stream ends
+const RETRY_MS = 5000;
+
+/**
+ * GET endpoint streaming changes to the signed-in user's scores as server-sent events
+ *
+ * Each change is sent as a `score` event whose data is { action: 'update' | 'delete', record },
+ * with the record as the scores API returns it. The store is watched with the server's own
+ * credentials, so the browser never talks to the backend directly.
+ *
+ * Returns a 501 when the configured store can't report changes (D1).
+ */
+export async function GET({ request, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	const { scores } = locals;
+	if (!scores.watchScores) {
+		return json({ error: 'Live updates are not available with this score store' }, { status: 501 });
+	}
+
+	const userId = locals.user.id;
+	const upstream = new AbortController();
+	request.signal.addEventListener('abort', () => upstream.abort());
+
+	const encoder = new TextEncoder();
+	let heartbeat: ReturnType<typeof setInterval> | undefined;
+	// Set once the stream is closed, or cancelled by the browser going away
+	let closed = false;
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const send = (text: string) => {
+				if (!closed) controller.enqueue(encoder.encode(text));
+			};
+
+			const close = () => {
+				if (closed) return;
+				closed = true;
+				clearInterval(heartbeat);
+				controller.close();
+			};
+
+			send(`retry: ${RETRY_MS}\n\n`);
+			heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+			const onChange = (change: ScoreChange) => {
+				send(`event: score\ndata: ${JSON.stringify(change)}\n\n`);
+			};
+
+			// When the watch ends the browser reconnects, and reloads what it missed
+			scores
+				.watchScores?.(userId, onChange, upstream.signal)
+				.finally(close)
+				.catch((error) => console.error('Failed to watch scores:', error));
+		},
+
+		cancel() {
+			closed = true;
+			clearInterval(heartbeat);
+			upstream.abort();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache'
+		}
+	});
+}
@@ -0,0 +1,68 @@
+import { handleApiError, integer, oneOf, optional, parseBody, string } from '$lib/validation';
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reviewBody = {
+	// A planner item key, see paperItemKey and questionItemKey in $lib/planner
+	item: string({ maxLength: 50, pattern: /^(paper:\d+|question:\d+:[^:]+)$/ }),
+	action: oneOf(['done', 'snooze']),
+	// How long to snooze for, only used by the snooze action
+	days: optional(integer({ min: 1, max: 30 }))
+};
+
+/**
+ * GET endpoint to list the signed-in user's revision plan reviews
+ */
+export async function GET({ locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	try {
+		return json(await locals.scores.listReviews(locals.user.id));
+	} catch (error) {
+		return handleApiError(error);
+	}
+}
+
+/**
+ * POST endpoint to act on an item in the revision plan
+ *
+ * Body: { item, action, days? }
+ * - `done` counts one more review, which pushes the next one further out
+ * - `snooze` hides the item until `days` (default 1) from now
+ *
+ * @returns The saved review
+ */
+export async function POST({ request, locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
+	}
+
+	try {
+		const { item, action, days = 1 } = await parseBody(request, reviewBody);
+		const userId = locals.user.id;
+
+		const existing = (await locals.scores.listReviews(userId)).find((r) => r.item === item);
+		const now = new Date();
+
+		const review =
+			action === 'done'
+				? await locals.scores.saveReview(userId, item, {
+						reviews: (existing?.reviews ?? 0) + 1,
+						reviewed: now.toISOString(),
+						snoozed_until: null
+					})
+				: await locals.scores.saveReview(userId, item, {
+						reviews: existing?.reviews ?? 0,
+						reviewed: existing?.reviewed ?? null,
+						snoozed_until: new Date(now.getTime() + days * DAY_MS).toISOString()
+					});
+
+		return json(review);
+	} catch (error) {
+		return handleApiError(error);
+	}
+}
@@ -1,44 +1,32 @@
-import { getPocketBaseClient } from '$lib/pb';
+import { handleApiError } from '$lib/validation';
 import { json } from '@sveltejs/kit';
 import type { RequestEvent } from '@sveltejs/kit';
 
 /**
- * GET endpoint to retrieve all paper scores for a specific user
- * 
- * Required query parameter:
- * - user_id: The ID of the user to fetch scores for
- * 
- * Optional query parameter:
- * - sort: Field to sort results by (default: -updated)
- * 
- * @returns JSON response with an array of all paper scores for the user
+ * GET endpoint to retrieve all paper scores for the signed-in user
+ *
+ * @returns JSON response with all of the user's attempts and paper scores
  */
-export async function GET({ url }: RequestEvent) {
-	const userId = url.searchParams.get('user_id');
-
-	if (!userId) {
-		return json({ error: 'Missing required parameter: user_id' }, { status: 400 });
+export async function GET({ locals }: RequestEvent) {
+	if (!locals.user) {
+		return json({ error: 'You need to be logged in' }, { status: 401 });
 	}
 
+	const userId = locals.user.id;
+
 	try {
-		// Create a new PocketBase instance for this request
-		const pb = await getPocketBaseClient(true);
-		
-		// Fetch all scores for the user across all papers
-		const data = await pb.collection('scores').getFullList({
-			filter: `user_id="${userId}"`,
-			expand: 'paper_id' // Expand the paper_id relation if needed
-		});
+		// Fetch all attempts and scores for the user across all papers
+		const [attempts, scores] = await Promise.all([
+			locals.scores.listAttempts(userId),
+			locals.scores.getUserScores(userId)
+		]);
 
 		return json({
-			scores: data,
+			attempts,
+			scores
 		});
 	} catch (error) {
 		console.error('Error fetching user scores:', error);
-		
-		if (error instanceof Error) {
-			return json({ error: error.message }, { status: 500 });
-		}
-		return json({ error: 'An unknown error occurred' }, { status: 500 });
+		return handleApiError(error);
 	}
-}
\ No newline at end of file
+}
@@ -0,0 +1,72 @@
+import { fail, redirect } from '@sveltejs/kit';
+import { ClientResponseError } from 'pocketbase';
+import type { Actions, PageServerLoad } from './$types';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export const load: PageServerLoad = async ({ locals }) => {
+	if (locals.user) {
+		redirect(303, '/papers');
+	}
+};
+
+function readCredentials(data: FormData) {
+	return {
+		email: data.get('email')?.toString().trim() ?? '',
+		password: data.get('password')?.toString() ?? ''
+	};
+}
+
+export const actions: Actions = {
+	login: async ({ request, locals }) => {
+		const { email, password } = readCredentials(await request.formData());
+
+		if (!email || !password) {
+			return fail(400, { email, error: 'Email and password are required' });
+		}
+
+		try {
+			await locals.pb.collection('users').authWithPassword(email, password);
+		} catch (error) {
+			console.error('Login failed:', error);
+			return fail(400, { email, error: 'Incorrect email or password' });
+		}
+
+		redirect(303, '/papers');
+	},
+
+	register: async ({ request, locals }) => {
+		const data = await request.formData();
+		const { email, password } = readCredentials(data);
+		const passwordConfirm = data.get('passwordConfirm')?.toString() ?? '';
+
+		if (!email || !password) {
+			return fail(400, { email, error: 'Email and password are required' });
+		}
+
+		if (password.length < MIN_PASSWORD_LENGTH) {
+			return fail(400, {
+				email,
+				error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+			});
+		}
+
+		if (password !== passwordConfirm) {
+			return fail(400, { email, error: 'Passwords do not match' });
+		}
+
+		try {
+			await locals.pb.collection('users').create({ email, password, passwordConfirm });
+			await locals.pb.collection('users').authWithPassword(email, password);
+		} catch (error) {
+			console.error('Sign up failed:', error);
+			const message =
+				error instanceof ClientResponseError && error.response?.data?.email
+					? 'An account with this email already exists'
+					: 'Could not create account';
+			return fail(400, { email, error: message });
+		}
+
+		redirect(303, '/papers');
+	}
+};
@@ -0,0 +1,8 @@
+import { redirect } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+
+export async function POST({ locals }: RequestEvent) {
+	// Clearing the auth store makes hooks.server.ts expire the session cookie
+	locals.pb.authStore.clear();
+	redirect(303, '/papers');
+}
@@ -0,0 +1,122 @@
+/// <reference types="@sveltejs/kit" />
+/// <reference no-default-lib="true"/>
+/// <reference lib="esnext" />
+/// <reference lib="webworker" />
+
+import { build, files, version } from '$service-worker';
+
+/**
+ * Keeps the app usable without a connection. The app shell (scripts, styles, static files
+ * and icons) and the paper catalog are cached when the worker installs; pages and their
+ * data are fetched from the network first and cached as they are visited, so they can be
+ * reopened offline. If the network is slow to answer, the cached copy is shown instead,
+ * so the installed app opens quickly with the last-known scores while the cache updates
+ * in the background. Marks made offline are queued by src/lib/scoreSync.svelte.ts, not here.
+ */
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+const SHELL_CACHE = `shell-${version}`;
+const PAGES_CACHE = `pages-${version}`;
+
+const SHELL = [...build, ...files];
+// Precached alongside the shell so the catalog is available offline
+const CATALOG = '/api/papers';
+
+// How long to wait for the network before falling back to a cached copy
+const NETWORK_TIMEOUT_MS = 2000;
+
+sw.addEventListener('install', (event) => {
+	event.waitUntil(
+		caches
+			.open(SHELL_CACHE)
+			.then((cache) => cache.addAll([...SHELL, CATALOG]))
+			.then(() => sw.skipWaiting())
+	);
+});
+
+sw.addEventListener('activate', (event) => {
+	// Drop the caches of earlier versions
+	event.waitUntil(
+		caches
+			.keys()
+			.then((keys) =>
+				Promise.all(
+					keys
+						.filter((key) => key !== SHELL_CACHE && key !== PAGES_CACHE)
+						.map((key) => caches.delete(key))
+				)
+			)
+			.then(() => sw.clients.claim())
+	);
+});
+
+// Answer from the network, keeping a copy of the response, or from the cache when offline
+// or when the network takes too long
+async function networkFirst(event: FetchEvent, cacheName: string): Promise<Response> {
+	const cache = await caches.open(cacheName);
+
+	const network = fetch(event.request).then((response) => {
+		if (response.ok) {
+			cache.put(event.request, response.clone());
+		}
+		return response;
+	});
+	// Keep the worker alive to update the cache even if the cached copy is used
+	event.waitUntil(network.catch(() => undefined));
+
+	const cachedAfterTimeout = new Promise<Response | undefined>((resolve) =>
+		setTimeout(() => resolve(cache.match(event.request)), NETWORK_TIMEOUT_MS)
+	);
+
+	try {
+		// Without a cached copy there's nothing to do but wait for the network
+		return (await Promise.race([network, cachedAfterTimeout])) ?? (await network);
+	} catch (error) {
+		const cached = await cache.match(event.request);
+		if (cached) {
+			return cached;
+		}
+		throw error;
+	}
+}
+
+sw.addEventListener('fetch', (event) => {
+	const url = new URL(event.request.url);
+	if (url.origin !== sw.location.origin) {
+		return;
+	}
+
+	// Cached pages hold the signed-in user's marks, so they go when the user logs out
+	if (event.request.method === 'POST' && url.pathname === '/logout') {
+		event.waitUntil(caches.delete(PAGES_CACHE));
+		return;
+	}
+
+	if (event.request.method !== 'GET') {
+		return;
+	}
+
+	// Built files never change within a version
+	if (SHELL.includes(url.pathname)) {
+		event.respondWith(
+			caches
+				.match(url.pathname, { cacheName: SHELL_CACHE })
+				.then((cached) => cached ?? fetch(event.request))
+		);
+		return;
+	}
+
+	if (url.pathname === CATALOG) {
+		event.respondWith(networkFirst(event, SHELL_CACHE));
+		return;
+	}
+
+	// Scores and other API data are always fetched live
+	if (url.pathname.startsWith('/api/') || url.pathname === '/api') {
+		return;
+	}
+
+	// Pages, and the data SvelteKit loads for them on client-side navigation
+	event.respondWith(networkFirst(event, PAGES_CACHE));
+});
@@ -0,0 +1,59 @@
+import PocketBase from 'pocketbase';
+import { pastPapers } from './src/lib/pastPapers';
+import { syncCatalog } from './src/lib/catalogRecords';
+
+/**
+ * CLI script to push the paper catalog in pastPapers.ts to the PocketBase
+ * `papers` and `questions` collections. Safe to run repeatedly: existing records
+ * are updated in place rather than duplicated.
+ *
+ * Run with:
+ * - `bun sync-papers.ts` to sync
+ * - `bun sync-papers.ts --dry-run` to see what would change without writing anything
+ *
+ * Reads PB_URL, PB_EMAIL, PB_PASSWORD and the optional CF_ACCESS_* values from .env,
+ * and always signs in as a superuser since it writes to the catalog collections
+ */
+
+const dryRun = process.argv.includes('--dry-run');
+
+if (!process.env.PB_URL) {
+	console.error('PB_URL is not set. Add your PocketBase URL to .env');
+	process.exit(1);
+}
+
+const pb = new PocketBase(process.env.PB_URL);
+pb.autoCancellation(false);
+
+pb.beforeSend = function (url, options) {
+	options.headers = options.headers || {};
+
+	if (process.env.CF_ACCESS_CLIENT_ID && process.env.CF_ACCESS_CLIENT_SECRET) {
+		options.headers['CF-Access-Client-Id'] = process.env.CF_ACCESS_CLIENT_ID;
+		options.headers['CF-Access-Client-Secret'] = process.env.CF_ACCESS_CLIENT_SECRET;
+	}
+
+	return { url, options };
+};
+
+try {
+	await pb
+		.collection('_superusers')
+		.authWithPassword(process.env.PB_EMAIL ?? '', process.env.PB_PASSWORD ?? '');
+} catch (error) {
+	console.error('Failed to authenticate with PocketBase:', error);
+	process.exit(1);
+}
+
+console.log(`${dryRun ? 'Checking' : 'Syncing'} ${pastPapers.length} papers...`);
+
+const summary = await syncCatalog(pb, pastPapers, { dryRun });
+
+console.log(`Papers:    ${summary.papersCreated} created, ${summary.papersUpdated} updated`);
+console.log(
+	`Questions: ${summary.questionsCreated} created, ${summary.questionsUpdated} updated, ${summary.questionsDeleted} deleted`
+);
+
+if (dryRun) {
+	console.log('\nDry run only, nothing was written. Run without --dry-run to apply.');
+}
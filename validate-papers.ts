@@ -1,37 +1,85 @@
-import { validatePaperMarks, updatePaperTotals } from './src/lib/validatePaperMarks';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { pastPapers } from './src/lib/pastPapers';
+import { lintCatalog, type LintFinding } from './src/lib/catalogLint';
+import { rewritePaperTotals } from './src/lib/validatePaperMarks';
 
 /**
- * CLI script to validate and optionally update all papers in the pastPapers.ts file
+ * CLI script to lint all papers in the pastPapers.ts file (see src/lib/catalogLint.ts for the rules)
  * 
  * Run with:
  * - `bun validate-papers.ts` to check only
- * - `bun validate-papers.ts --update` to check and update totalMarks properties
+ * - `bun validate-papers.ts --json` to print the findings as JSON
+ * - `bun validate-papers.ts --update` to check and rewrite wrong or missing totalMarks in pastPapers.ts
+ * - `bun validate-papers.ts --update --dry-run` to see the changes --update would make
+ *
+ * Exits with status 1 if there are any errors left, so it can be used as a check.
  */
 
+const PAST_PAPERS_FILE = new URL('./src/lib/pastPapers.ts', import.meta.url);
+
 const shouldUpdate = process.argv.includes('--update');
+const dryRun = process.argv.includes('--dry-run');
+const asJson = process.argv.includes('--json');
 
-// First, run validation
-const result = validatePaperMarks();
-console.log(`Validation ${result.valid ? 'PASSED ✅' : 'FAILED ❌'}`);
-
-if (result.discrepancies.length > 0) {
-  console.log('\nDiscrepancies found:');
-  result.discrepancies.forEach(d => {
-    if (d.expectedTotal === undefined) {
-      console.log(`- Paper ID ${d.paperId} (${d.paperTitle}): Missing totalMarks property. Calculated total: ${d.calculatedTotal}`);
-    } else {
-      console.log(`- Paper ID ${d.paperId} (${d.paperTitle}): Expected ${d.expectedTotal}, calculated ${d.calculatedTotal}`);
-    }
-  });
-  
-  // Update totalMarks if requested
-  if (shouldUpdate) {
-    const updatedCount = updatePaperTotals();
-    console.log(`\nUpdated ${updatedCount} papers with correct totalMarks values.`);
-    console.log('Please review the changes and commit them if they look correct.');
+// Keep stdout for the JSON report when --json is given
+const log = asJson ? console.error : console.log;
+
+let findings = lintCatalog(pastPapers);
+
+// Update totalMarks if requested
+if (shouldUpdate) {
+  const { source, changes } = rewritePaperTotals(readFileSync(PAST_PAPERS_FILE, 'utf8'));
+
+  if (changes.length === 0) {
+    log('No totalMarks need updating.');
+  } else if (dryRun) {
+    log('Changes that --update would make to src/lib/pastPapers.ts:');
+    changes.forEach(c => {
+      log(`\n@@ line ${c.line} (paper ID ${c.paperId}) @@`);
+      if (c.before !== undefined) log(`- ${c.before.trim()}`);
+      log(`+ ${c.after.trim()}`);
+    });
+    log('\nDry run only, nothing was written.\n');
   } else {
-    console.log('\nTo automatically update totalMarks properties, run with: bun validate-papers.ts --update');
+    writeFileSync(PAST_PAPERS_FILE, source);
+    log(`Updated totalMarks for ${changes.length} papers in src/lib/pastPapers.ts.`);
+    log('Please review the changes and commit them if they look correct.\n');
+
+    const fixed = new Set(changes.map(c => c.paperId));
+    findings = findings.filter(
+      f => !((f.rule === 'total-marks-mismatch' || f.rule === 'missing-total-marks') && fixed.has(f.paperId))
+    );
   }
+}
+
+const errors = findings.filter(f => f.severity === 'error').length;
+const warnings = findings.length - errors;
+
+if (asJson) {
+  console.log(JSON.stringify({ valid: errors === 0, errors, warnings, findings }, null, 2));
 } else {
-  console.log('All papers have correct totalMarks values! 🎉');
-}
\ No newline at end of file
+  // Group findings by paper so each paper's title is printed once
+  const byPaper = new Map<number, LintFinding[]>();
+  findings.forEach(f => byPaper.set(f.paperId, [...(byPaper.get(f.paperId) ?? []), f]));
+
+  byPaper.forEach((paperFindings, paperId) => {
+    const paper = pastPapers.find(p => p.id === paperId);
+    const title = paper
+      ? `${paper.board.toUpperCase()} ${paper.subject.toUpperCase()} ${paper.year} ${paper.season} ${paper.paper}`
+      : '';
+    console.log(`\nPaper ID ${paperId} (${title})`);
+    paperFindings.forEach(f => {
+      const icon = f.severity === 'error' ? '❌' : '⚠️ ';
+      console.log(`  ${icon} ${f.severity.padEnd(7)} ${f.rule.padEnd(28)} ${f.message}`);
+    });
+  });
+
+  console.log(`\nValidation ${errors === 0 ? 'PASSED ✅' : 'FAILED ❌'} (${errors} errors, ${warnings} warnings)`);
+  if (findings.some(f => f.rule === 'total-marks-mismatch' || f.rule === 'missing-total-marks') && !shouldUpdate) {
+    console.log('To automatically update totalMarks properties, run with: bun validate-papers.ts --update');
+  }
+}
+
+if (errors > 0) {
+  process.exit(1);
+}